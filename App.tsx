@@ -1,12 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { LESSONS, TOOLS } from './constants';
-import { parseGCode } from './services/gcodeParser';
+import { DEFAULT_MODAL_STATE, modalCodes } from './services/gcodeParser';
+import { DEFAULT_PROGRAM_NUMBER, ProgramSource, linkPrograms, programName, programNumberOf } from './services/programLibrary';
+import { DEFAULT_RAPID_RATE } from './services/motionPlanner';
+import { CycleTimeReport } from './services/cycleTimeAnalyzer';
+import { InterpreterConnection, connectInterpreter } from './services/interpreterProtocol';
+import { sameToolGeometry } from './services/programInterpreter';
+import { STOCK_LENGTH } from './services/stockModel';
+import { WORK_SYSTEMS, defaultWorkOffsets, moveReference, workOrigin } from './services/workCoordinates';
+import { defaultToolOffsets } from './services/toolOffsets';
+import { jogStop, toolSetterAt } from './services/toolSetup';
+import { MANUAL_MODES, MDI_PROGRAM, OperatingMode, limitStop, softLimitsAt } from './services/operatingModes';
 import { Editor } from './components/Editor';
 import { Simulator } from './components/Simulator';
 import { GeminiTutor } from './components/GeminiTutor';
 import { CadImporter } from './components/CadImporter';
-import { MachineState, SimulationState, MaterialType, ToolConfig } from './types';
-import { Play, Pause, RotateCcw, RotateCw, Layout, Gauge, AlertTriangle, XCircle, Terminal, Layers, Octagon, Ban, Droplets, Ruler, Settings, Wrench, RefreshCw, CloudDownload, Edit3, Link2, Crosshair, PenTool, Home } from 'lucide-react';
+import { CycleTimePanel } from './components/CycleTimePanel';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { ExecutionPanel } from './components/ExecutionPanel';
+import { VariablesPanel } from './components/VariablesPanel';
+import { PositionDisplay } from './components/PositionDisplay';
+import { ToolOffsetPage } from './components/ToolOffsetPage';
+import { ToolSetupPanel } from './components/ToolSetupPanel';
+import { ManualPanel } from './components/ManualPanel';
+import { ModeSelector } from './components/ModeSelector';
+import { Lesson, MachineState, ManualPosition, SimulationState, MaterialType, ToolConfig, ToolOffsets, WorkOffsets } from './types';
+import { Play, Pause, RotateCcw, RotateCw, Layout, Gauge, AlertTriangle, XCircle, Terminal, Layers, Octagon, Ban, Droplets, Ruler, Settings, Wrench, RefreshCw, CloudDownload, Edit3, Link2, Crosshair, PenTool, Home, Target } from 'lucide-react';
 
 const ShortcutButton = ({ k, label, icon, onClick }: { k: string, label: string, icon: React.ReactNode, onClick: () => void }) => (
     <button onClick={onClick} className="flex flex-col items-center justify-center p-2 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors group relative min-w-[60px]">
@@ -16,9 +35,21 @@ const ShortcutButton = ({ k, label, icon, onClick }: { k: string, label: string,
     </button>
 );
 
+// Program library of a lesson: its program as the main one, then its subprograms
+const lessonPrograms = (lesson: Lesson): ProgramSource[] =>
+  [{ number: programNumberOf(lesson.defaultCode) ?? DEFAULT_PROGRAM_NUMBER, code: lesson.defaultCode }, ...(lesson.subprograms || [])];
+
+// Breakpoints are kept by program and line
+const breakpointKey = (program: number | undefined, line: number) => `${program}:${line}`;
+
+// Quiet time (ms) after an edit before the cycle time is estimated again
+const ESTIMATE_DELAY = 300;
+
 export default function App() {
   const [currentLessonId, setCurrentLessonId] = useState(LESSONS[0].id);
-  const [code, setCode] = useState(LESSONS[0].defaultCode);
+  // Program library: the main program first, one editor tab per program
+  const [programs, setPrograms] = useState<ProgramSource[]>(() => lessonPrograms(LESSONS[0]));
+  const [editingProgram, setEditingProgram] = useState(programs[0].number);
   const [machineState, setMachineState] = useState<MachineState>(MachineState.IDLE);
   const [currentLine, setCurrentLine] = useState(0);
   const [feedOverride, setFeedOverride] = useState(100);
@@ -27,6 +58,7 @@ export default function App() {
   // CAD Import Modal State
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const [isOffsetPageOpen, setIsOffsetPageOpen] = useState(false);
 
   // Aspire Simulation States
   const [showPaths, setShowPaths] = useState(true);
@@ -35,6 +67,7 @@ export default function App() {
 
   // Tool State Management (Dynamic Wear)
   const [tools, setTools] = useState<ToolConfig[]>(TOOLS);
+  const [toolOffsets, setToolOffsets] = useState<ToolOffsets>(() => defaultToolOffsets(TOOLS));
 
   // Lifted state from Simulator
   const [stockMaterial, setStockMaterial] = useState<MaterialType>('Steel');
@@ -46,20 +79,116 @@ export default function App() {
   
   // Home Position Config
   const [homePosition, setHomePosition] = useState({ x: 100, z: 50 });
+  const [rapidRate, setRapidRate] = useState(DEFAULT_RAPID_RATE);
+  // G54–G59: part zero measured from home, so it stays on the part when home moves
+  const [workOffsets, setWorkOffsets] = useState<WorkOffsets>(() => defaultWorkOffsets(homePosition));
+  const changeHome = (home: { x: number; z: number }) => {
+    setWorkOffsets(prev => moveReference(prev, homePosition, home));
+    setHomePosition(home);
+  };
+  const changeWorkOffset = (system: number, axis: 'x' | 'z', value: number) =>
+    setWorkOffsets(prev => ({ ...prev, [system]: { ...prev[system], [axis]: value } }));
+
+  // Mode switch: EDIT changes the program, MEM and MDI run it or the typed blocks, the manual
+  // modes move the tool by hand. In MDI and the manual modes the tool is at manualPosition.
+  const [mode, setMode] = useState<OperatingMode>('EDIT');
+  const [manualPosition, setManualPosition] = useState<ManualPosition | null>(null);
+  const manualRef = useRef<ManualPosition | null>(null); // Moves faster than renders add up on the latest one
+  const placeManual = useCallback((position: ManualPosition | null) => {
+    manualRef.current = position;
+    setManualPosition(position);
+  }, []);
+  const [overtravel, setOvertravel] = useState<string | null>(null);
+  const softLimits = useMemo(() => softLimitsAt(homePosition), [homePosition]);
+  const [mdiCode, setMdiCode] = useState('');
+
+  // Setup: the tool jogged to measure its offsets, with the setter arm in or out
+  const [isSetupOpen, setIsSetupOpen] = useState(false);
+  const [setterDeployed, setSetterDeployed] = useState(false);
+  const toolSetter = useMemo(() => toolSetterAt(homePosition), [homePosition]);
+  const closeSetup = () => {
+    setIsSetupOpen(false);
+    setSetterDeployed(false);
+  };
 
   const [simState, setSimState] = useState<SimulationState>({
-    x: homePosition.x, z: homePosition.z, feedRate: 0, spindleSpeed: 0, spindleDirection: 'STOP',
-    tool: 1, activeToolOffset: 0, toolRadiusComp: 'OFF', positioningMode: 'ABS', coolant: 'OFF', path: []
+    x: homePosition.x, z: homePosition.z, workOrigin: workOrigin(homePosition, workOffsets, DEFAULT_MODAL_STATE.coordinateSystem), feedRate: 0, spindleSpeed: 0, spindleDirection: 'STOP', spindleMode: 'RPM', programmedSpeed: 0, spindleClamped: false,
+    tool: 1, offsetNumber: 0, toolOffset: { x: 0, z: 0 }, toolRadiusComp: 'OFF', positioningMode: 'ABS', coolant: 'OFF', modal: DEFAULT_MODAL_STATE, path: [], threads: [], variables: {}
   });
 
   const currentLesson = LESSONS.find(l => l.id === currentLessonId) || LESSONS[0];
-  const parsedCommands = parseGCode(code);
+  const mainProgram = programs[0].number;
+  const code = (programs.find(p => p.number === editingProgram) || programs[0]).code;
+  const parsed = useMemo(() => linkPrograms(programs), [programs]);
+  const parsedCommands = parsed.commands;
+  const diagnostics = parsed.diagnostics[editingProgram] || [];
+  const programTabs = useMemo(() => programs.map(p => ({ number: p.number, errors: parsed.diagnostics[p.number].some(d => d.severity === 'error') })), [programs, parsed]);
+  const hasSyntaxErrors = programTabs.some(p => p.errors);
+  const usesMacros = useMemo(() => parsedCommands.some(c => c.type === 'MACRO' || c.expressions), [parsedCommands]);
+  // MDI buffer, linked ahead of the library so its M98 find the subprograms
+  const mdi = useMemo(() => linkPrograms([{ number: MDI_PROGRAM, code: mdiCode }, ...programs]), [mdiCode, programs]);
+  const mdiReady = mdi.commands[0]?.program === MDI_PROGRAM && !mdi.diagnostics[MDI_PROGRAM].some(d => d.severity === 'error');
+  const runCommands = mode === 'MDI' ? mdi.commands : parsedCommands;
+  // Editor ↔ toolpath link: line hovered in the editor, line picked on the canvas
+  const [hoveredLine, setHoveredLine] = useState<number | null>(null);
+  const hoveredBlock = useMemo(() => (hoveredLine === null ? null : { program: editingProgram, line: hoveredLine }), [hoveredLine, editingProgram]);
+  const [selectedLine, setSelectedLine] = useState<{ program?: number; line: number } | null>(null);
+  const handleSelectLine = useCallback((line: number, program?: number) => {
+    if (program !== undefined) setEditingProgram(program);
+    setSelectedLine({ program, line });
+  }, []);
+  // Debugging: stop after every block, stop before breakpoint lines, caret line for run-from-cursor
+  const [singleBlock, setSingleBlock] = useState(false);
+  const [breakpoints, setBreakpoints] = useState<Set<string>>(new Set());
+  const [cursorLine, setCursorLine] = useState(1);
+  const editorBreakpoints = useMemo(() => {
+    const lines = new Set<number>();
+    breakpoints.forEach(key => {
+      const [program, line] = key.split(':').map(Number);
+      if (program === editingProgram) lines.add(line);
+    });
+    return lines;
+  }, [breakpoints, editingProgram]);
+  // Wear doesn't change the path: the estimate is kept while the inserts wear during a run
+  const toolGeometryRef = useRef(tools);
+  if (!sameToolGeometry(toolGeometryRef.current, tools)) toolGeometryRef.current = tools;
+  const toolGeometry = toolGeometryRef.current;
+  // The estimate runs the whole program, so it is worked out in a worker of its own once the editing pauses
+  const [cycleTime, setCycleTime] = useState<{ report: CycleTimeReport | null; error?: string }>({ report: null });
+  const estimatorRef = useRef<InterpreterConnection | null>(null);
+  const estimateIdRef = useRef(0);
+  useEffect(() => {
+    const estimator = connectInterpreter(response => {
+        if (response.type === 'estimate' && response.id === estimateIdRef.current) setCycleTime({ report: response.report });
+        else if (response.type === 'error') setCycleTime({ report: null, error: response.message });
+    });
+    estimatorRef.current = estimator;
+    return () => {
+        estimator.close();
+        estimatorRef.current = null;
+    };
+  }, []);
+  useEffect(() => {
+    const id = ++estimateIdRef.current;
+    if (hasSyntaxErrors) {
+        setCycleTime({ report: null });
+        return;
+    }
+    const timer = setTimeout(() => estimatorRef.current?.post({
+        type: 'estimate', id, commands: parsedCommands, tools: toolGeometry, options: { rapidRate },
+        machine: { home: homePosition, workOffsets, toolOffsets, stockDiameter: currentLesson.stockDiameter, stockLength: STOCK_LENGTH, material: stockMaterial }
+    }), ESTIMATE_DELAY);
+    return () => clearTimeout(timer);
+  }, [parsedCommands, hasSyntaxErrors, rapidRate, homePosition, workOffsets, toolOffsets, currentLesson.stockDiameter, stockMaterial, toolGeometry]);
 
   useEffect(() => {
     const lesson = LESSONS.find(l => l.id === currentLessonId);
     if (lesson) {
-        setCode(lesson.defaultCode);
-        handleReset();
+        const library = lessonPrograms(lesson);
+        setPrograms(library);
+        setEditingProgram(library[0].number);
+        setBreakpoints(new Set());
+        editAtHome();
     }
   }, [currentLessonId]);
 
@@ -103,49 +232,176 @@ export default function App() {
     setTimeout(() => setAspireToast(null), 2000);
   };
 
+  // First command of the block (source line) that holds command `index`
+  const blockStartOf = useCallback((index: number) => {
+    let i = index;
+    while (i > 0 && runCommands[i - 1].line === runCommands[index].line && runCommands[i - 1].program === runCommands[index].program) i--;
+    return i;
+  }, [runCommands]);
+
+  // Step into: the editor shows the program holding the block being run (the MDI buffer has no tab)
+  const runningProgram = machineState !== MachineState.IDLE ? runCommands[currentLine]?.program : undefined;
   useEffect(() => {
-    let interval: any;
-    if (machineState === MachineState.RUNNING) {
-        const baseDelay = 500;
-        const delay = feedOverride > 0 ? baseDelay * (100 / feedOverride) : 100000;
-
-        interval = setInterval(() => {
-            setCurrentLine(prev => {
-                if (prev >= parsedCommands.length - 1) {
-                    setMachineState(MachineState.IDLE);
-                    return prev;
-                }
-                return prev + 1;
-            });
-        }, delay); 
+    if (runningProgram !== undefined && runningProgram !== MDI_PROGRAM) setEditingProgram(runningProgram);
+  }, [runningProgram]);
+
+  const handleCodeChange = useCallback((text: string) => {
+    setPrograms(prev => prev.map(p => (p.number === editingProgram ? { ...p, code: text } : p)));
+  }, [editingProgram]);
+
+  const handleSelectProgram = useCallback((number: number) => {
+    setEditingProgram(number);
+    setCursorLine(1);
+    setHoveredLine(null);
+  }, []);
+
+  const handleAddProgram = () => {
+    const number = Math.max(...programs.map(p => p.number)) + 1;
+    if (number > 9999) return;
+    setPrograms(prev => [...prev, { number, code: `${programName(number)} (SUBPROGRAMA)\n\nM99` }]);
+    handleSelectProgram(number);
+  };
+
+  const handleRemoveProgram = (number: number) => {
+    setPrograms(prev => prev.filter(p => p.number !== number));
+    setBreakpoints(prev => new Set([...prev].filter(key => !key.startsWith(`${number}:`))));
+    if (editingProgram === number) handleSelectProgram(mainProgram);
+    handleReset();
+  };
+
+  // The simulator reports when the tool has finished the motion of the current block, and
+  // which command runs next (GOTO, WHILE loops and M98/M99 jump). Single-block and breakpoints stop
+  // between source lines, never inside one block.
+  const handleBlockComplete = useCallback((next: number) => {
+    if (next >= runCommands.length) {
+        setMachineState(MachineState.IDLE);
+        return;
     }
-    return () => clearInterval(interval);
-  }, [machineState, parsedCommands.length, feedOverride]);
+    const { line, program } = runCommands[next];
+    const newBlock = line !== runCommands[currentLine].line || program !== runCommands[currentLine].program;
+    if (newBlock && (singleBlock || breakpoints.has(breakpointKey(program, line)))) setMachineState(MachineState.PAUSED);
+    setCurrentLine(next);
+  }, [runCommands, currentLine, singleBlock, breakpoints]);
 
-  const handlePlay = () => {
-    if (machineState === MachineState.ALARM) return;
-    if (machineState === MachineState.IDLE || machineState === MachineState.PAUSED) {
-        if (currentLine >= parsedCommands.length - 1) setCurrentLine(0);
+  // Cycle start runs the program in MEM and the typed blocks in MDI; a paused run resumes in any mode
+  const startBlocked = mode === 'MEMORY' ? (hasSyntaxErrors ? 'El programa tiene errores de sintaxis' : null)
+    : mode === 'MDI' ? (mdiReady ? null : 'Escriba bloques MDI sin errores')
+    : 'Seleccione MEM o MDI para el inicio de ciclo';
+  const canCycleStart = machineState === MachineState.PAUSED || (machineState !== MachineState.ALARM && !startBlocked);
+  const handlePlay = useCallback(() => {
+    if (machineState === MachineState.PAUSED) setMachineState(MachineState.RUNNING);
+    else if (machineState === MachineState.IDLE && !startBlocked) {
+        setCurrentLine(0);
         setMachineState(MachineState.RUNNING);
     }
-  };
+  }, [machineState, startBlocked]);
+
+  // Back to the start of the previous block of the same program; the simulator rebuilds the
+  // part as it was there
+  const currentStart = blockStartOf(currentLine);
+  const canStepBack = machineState === MachineState.PAUSED && currentStart > 0 && runCommands[currentStart - 1].program === runCommands[currentStart].program;
+  const handleStepBack = useCallback(() => {
+    if (canStepBack) setCurrentLine(blockStartOf(currentStart - 1));
+  }, [canStepBack, currentStart, blockStartOf]);
+
+  // Starts at the first block on or after the caret line of the main program. The simulator
+  // replays the earlier blocks without motion, so modal codes, tool, spindle and stock are
+  // those of that line.
+  const runFromIndex = mode === 'MEMORY' && editingProgram === mainProgram ? parsedCommands.findIndex(c => c.program === mainProgram && c.line >= cursorLine) : -1;
+  const handleRunFromCursor = useCallback(() => {
+    if (machineState === MachineState.ALARM || hasSyntaxErrors || runFromIndex === -1) return;
+    setCurrentLine(runFromIndex);
+    setMachineState(MachineState.RUNNING);
+  }, [machineState, hasSyntaxErrors, runFromIndex]);
 
-  const handlePause = () => machineState !== MachineState.ALARM && setMachineState(MachineState.PAUSED);
+  const handleToggleBreakpoint = useCallback((line: number) => {
+    setBreakpoints(prev => {
+        const next = new Set(prev);
+        const key = breakpointKey(editingProgram, line);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        return next;
+    });
+  }, [editingProgram]);
+
+  const handlePause = useCallback(() => machineState !== MachineState.ALARM && setMachineState(MachineState.PAUSED), [machineState]);
   const handleReset = () => { setMachineState(MachineState.IDLE); setCurrentLine(0); setErrorMessage(null); };
-  const handleAlarm = (msg: string) => { 
+  // Reference return: in the manual modes the tool travels back to home
+  const handleHome = () => {
+    handleReset();
+    setOvertravel(null);
+    if (manualRef.current) placeManual({ ...manualRef.current, x: homePosition.x, z: homePosition.z });
+  };
+
+  // The switch moves only with the machine stopped. Entering the manual modes the tool stays where it is;
+  // back in MEM or EDIT it is at home again for the program.
+  const changeMode = (next: OperatingMode) => {
+    if (machineState === MachineState.RUNNING || machineState === MachineState.PAUSED) return;
+    const manual = MANUAL_MODES.includes(next);
+    if (manual && !manualRef.current) placeManual({ x: simState.x, z: simState.z, tool: simState.tool, offset: simState.offsetNumber || simState.tool });
+    if (!manual) {
+        closeSetup();
+        placeManual(null);
+        setOvertravel(null);
+    }
+    setCurrentLine(0);
+    setMode(next);
+  };
+  // A new program is loaded (lesson or CAD import): in EDIT, ready to change it, with the tool at home
+  const editAtHome = () => {
+    handleReset();
+    closeSetup();
+    placeManual(null);
+    setOvertravel(null);
+    setMode('EDIT');
+  };
+  const toggleSetup = () => {
+    if (isSetupOpen) closeSetup();
+    else if (machineState === MachineState.IDLE) {
+        if (!MANUAL_MODES.includes(mode)) changeMode('JOG');
+        setIsSetupOpen(true);
+    }
+  };
+
+  // Every manual move stops at the setter stylus and at the soft limits; the axes don't move during a run or an alarm
+  const moveManual = useCallback((to: ManualPosition) => {
+    const from = manualRef.current;
+    if (!from || machineState !== MachineState.IDLE) return;
+    const stopped = limitStop(setterDeployed ? jogStop(from, to, toolSetter) : to, softLimits);
+    setOvertravel(stopped.overtravel);
+    placeManual(stopped.to);
+  }, [machineState, setterDeployed, toolSetter, softLimits, placeManual]);
+  const handleJog = useCallback((axis: 'x' | 'z', distance: number) => {
+    const from = manualRef.current;
+    if (from) moveManual({ ...from, [axis]: Number((from[axis] + distance).toFixed(4)) });
+  }, [moveManual]);
+  // A new MDI buffer starts from its first block
+  const handleMdiChange = (text: string) => {
+    setMdiCode(text);
+    setCurrentLine(0);
+  };
+  const handleReference = (axis: 'x' | 'z') => {
+    if (manualRef.current) moveManual({ ...manualRef.current, [axis]: homePosition[axis] });
+  };
+  // The simulator reports where an MDI run or a refused move left the tool
+  const handleManualPosition = useCallback((position: ManualPosition, spindle?: { dir: 'CW' | 'CCW' | 'STOP'; speed: number }) => {
+    placeManual(position);
+    if (spindle) setManualSpindle(spindle);
+  }, [placeManual]);
+  const handleAlarm = useCallback((msg: string) => { 
       if (machineState !== MachineState.ALARM) { 
           setMachineState(MachineState.ALARM); 
           setErrorMessage(msg); 
           setManualSpindle({dir: 'STOP', speed: 0}); 
       } 
-  };
+  }, [machineState]);
   
-  const updateToolWear = (toolId: number, wearAmount: number) => {
+  const updateToolWear = useCallback((toolId: number, wearAmount: number) => {
     setTools(prev => prev.map(t => {
         if (t.id === toolId) { return { ...t, wear: Math.min(100, Math.max(0, wearAmount)) }; }
         return t;
     }));
-  };
+  }, []);
 
   const handleResetWear = () => { updateToolWear(simState.tool, 0); };
 
@@ -173,7 +429,7 @@ export default function App() {
       {/* Settings Modal */}
       {isSettingsModalOpen && (
           <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in">
-              <div className="bg-cnc-900 border border-cnc-700 p-6 rounded-xl w-96 shadow-2xl relative">
+              <div className="bg-cnc-900 border border-cnc-700 p-6 rounded-xl w-[40rem] max-h-[90vh] overflow-y-auto custom-scrollbar shadow-2xl relative">
                   <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-2 border-b border-cnc-800 pb-4">
                       <Settings className="text-cnc-accent" size={24} /> 
                       <span className="tracking-wider">CONFIGURACIÓN</span>
@@ -187,15 +443,43 @@ export default function App() {
                         <div className="grid grid-cols-2 gap-4">
                             <div>
                                 <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-1.5">Eje X (mm)</label>
-                                <input type="number" value={homePosition.x} onChange={(e) => setHomePosition({...homePosition, x: parseFloat(e.target.value) || 0})} className="w-full bg-black border border-zinc-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-cnc-accent outline-none" />
+                                <input type="number" value={homePosition.x} onChange={(e) => changeHome({...homePosition, x: parseFloat(e.target.value) || 0})} className="w-full bg-black border border-zinc-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-cnc-accent outline-none" />
                             </div>
                             <div>
                                 <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-1.5">Eje Z (mm)</label>
-                                <input type="number" value={homePosition.z} onChange={(e) => setHomePosition({...homePosition, z: parseFloat(e.target.value) || 0})} className="w-full bg-black border border-zinc-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-cnc-accent outline-none" />
+                                <input type="number" value={homePosition.z} onChange={(e) => changeHome({...homePosition, z: parseFloat(e.target.value) || 0})} className="w-full bg-black border border-zinc-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-cnc-accent outline-none" />
                             </div>
                         </div>
                         <p className="text-[10px] text-zinc-500 mt-2 leading-relaxed">Define las coordenadas absolutas de la posición de referencia de la máquina. G28 enviará la herramienta aquí.</p>
                       </div>
+                      <div className="bg-zinc-800/30 p-4 rounded-lg border border-zinc-800">
+                        <div className="flex items-center gap-2 mb-3 text-cnc-accent">
+                            <Gauge size={16} />
+                            <h4 className="font-bold text-xs uppercase">Avance Rápido (G00)</h4>
+                        </div>
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-1.5">Velocidad (mm/min)</label>
+                        <input type="number" min="100" step="100" value={rapidRate} onChange={(e) => setRapidRate(Math.max(100, parseFloat(e.target.value) || 0))} className="w-full bg-black border border-zinc-700 rounded px-3 py-2 text-white font-mono text-sm focus:border-cnc-accent outline-none" />
+                        <p className="text-[10px] text-zinc-500 mt-2 leading-relaxed">Los avances de corte siguen el F programado (mm/rev con G99, mm/min con G98) y el porcentaje de avance.</p>
+                      </div>
+                      <div className="bg-zinc-800/30 p-4 rounded-lg border border-zinc-800">
+                        <div className="flex items-center gap-2 mb-3 text-cnc-accent">
+                            <Crosshair size={16} />
+                            <h4 className="font-bold text-xs uppercase">Orígenes de Pieza (G54–G59)</h4>
+                        </div>
+                        <div className="grid grid-cols-[3rem_1fr_1fr] gap-x-4 gap-y-1.5 items-center">
+                            <span></span>
+                            <span className="text-[10px] font-bold text-zinc-500 uppercase">X (mm)</span>
+                            <span className="text-[10px] font-bold text-zinc-500 uppercase">Z (mm)</span>
+                            {WORK_SYSTEMS.map(g => (
+                                <React.Fragment key={g}>
+                                    <span className="font-mono text-xs font-bold text-white">G{g}</span>
+                                    <input type="number" step="0.001" value={workOffsets[g].x} onChange={(e) => changeWorkOffset(g, 'x', parseFloat(e.target.value) || 0)} className="w-full bg-black border border-zinc-700 rounded px-3 py-1 text-white font-mono text-sm focus:border-cnc-accent outline-none" />
+                                    <input type="number" step="0.001" value={workOffsets[g].z} onChange={(e) => changeWorkOffset(g, 'z', parseFloat(e.target.value) || 0)} className="w-full bg-black border border-zinc-700 rounded px-3 py-1 text-white font-mono text-sm focus:border-cnc-accent outline-none" />
+                                </React.Fragment>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-zinc-500 mt-2 leading-relaxed">Posición del cero pieza medida desde Home (X en diámetro). Con X-{homePosition.x} Z-{homePosition.z} el cero queda en el eje del husillo, sobre la cara del material.</p>
+                      </div>
                   </div>
                   <div className="mt-8 flex justify-end gap-2">
                       <button onClick={() => setIsSettingsModalOpen(false)} className="px-4 py-2 bg-cnc-accent hover:bg-yellow-500 text-black font-bold rounded text-xs tracking-wider transition-colors">GUARDAR Y CERRAR</button>
@@ -204,7 +488,9 @@ export default function App() {
           </div>
       )}
 
-      <CadImporter isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} onCodeGenerated={(generatedCode) => { setCode(generatedCode); handleReset(); }} />
+      {isOffsetPageOpen && <ToolOffsetPage offsets={toolOffsets} activeOffset={simState.offsetNumber} onChange={setToolOffsets} onClose={() => setIsOffsetPageOpen(false)} />}
+
+      <CadImporter isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} onCodeGenerated={(generatedCode) => { setPrograms(prev => [{ ...prev[0], code: generatedCode }, ...prev.slice(1)]); handleSelectProgram(mainProgram); editAtHome(); }} />
 
       <aside className="w-64 bg-zinc-900/80 backdrop-blur-sm border-r border-zinc-800 flex flex-col z-10">
         <div className="p-4 border-b border-zinc-800 flex items-center gap-2 bg-gradient-to-r from-zinc-900 to-zinc-800">
@@ -235,15 +521,16 @@ export default function App() {
 
         <header className="h-20 bg-zinc-900/50 backdrop-blur-md border-b border-zinc-800 flex items-center justify-between px-4 z-20 gap-4">
             <div className="flex items-center gap-2">
-                <button onClick={handlePlay} disabled={machineState === MachineState.ALARM} className={`flex items-center justify-center w-10 h-10 rounded-full shadow-lg transition-all transform active:scale-95 ${machineState === MachineState.ALARM ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed' : 'bg-green-600 hover:bg-green-500 text-white shadow-green-900/30'}`} title="Inicio Ciclo"><Play size={16} fill="currentColor" /></button>
+                <button onClick={handlePlay} disabled={!canCycleStart} className={`flex items-center justify-center w-10 h-10 rounded-full shadow-lg transition-all transform active:scale-95 ${!canCycleStart ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed' : 'bg-green-600 hover:bg-green-500 text-white shadow-green-900/30'}`} title={machineState !== MachineState.PAUSED && startBlocked ? startBlocked : 'Inicio Ciclo'}><Play size={16} fill="currentColor" /></button>
                 <button onClick={handlePause} disabled={machineState === MachineState.ALARM} className={`flex items-center justify-center w-10 h-10 rounded-full transition-all border border-zinc-700 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 hover:text-white`} title="Pausa"><Pause size={16} fill="currentColor" /></button>
                 <button onClick={handleReset} className="flex items-center justify-center w-10 h-10 rounded-full transition-all text-zinc-400 hover:text-white hover:bg-red-900/20" title="Reset"><RotateCcw size={16} /></button>
                 <div className="h-8 w-px bg-zinc-700 mx-2"></div>
-                <button onClick={handleReset} className="flex items-center justify-center w-10 h-10 rounded-full bg-zinc-800 text-cnc-accent hover:text-white border border-zinc-700 transition-all shadow-inner" title="Retorno a Home (G28)"><Home size={16} /></button>
+                <button onClick={handleHome} className="flex items-center justify-center w-10 h-10 rounded-full bg-zinc-800 text-cnc-accent hover:text-white border border-zinc-700 transition-all shadow-inner" title="Retorno a Home (G28)"><Home size={16} /></button>
                 <button onClick={() => setIsImportModalOpen(true)} className="flex items-center gap-2 px-3 py-2 rounded bg-zinc-800 text-zinc-300 hover:bg-zinc-700 hover:text-white border border-zinc-700 transition-all text-xs font-bold"><CloudDownload size={16} className="text-blue-400" /><span className="hidden xl:inline">IMPORTAR CAD/CAM</span></button>
             </div>
 
             <div className="flex items-center gap-0 bg-black/40 border border-zinc-800 rounded-lg p-0 overflow-hidden">
+                 <ModeSelector mode={mode} locked={machineState === MachineState.RUNNING || machineState === MachineState.PAUSED} onChange={changeMode} />
                  <div className="flex gap-1 p-1.5 border-r border-zinc-800 bg-zinc-900/50">
                      <button title="Husillo CW (M03)" onClick={() => setManualSpindle({dir: 'CW', speed: 1000})} className={`p-1.5 rounded transition-all ${manualSpindle.dir === 'CW' ? 'bg-green-600 text-white shadow-[0_0_8px_#16a34a]' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}><RotateCw size={14} /></button>
                     <button title="Parada Husillo (M05)" onClick={() => setManualSpindle({dir: 'STOP', speed: 0})} className={`p-1.5 rounded transition-all ${manualSpindle.dir === 'STOP' ? 'bg-red-600 text-white shadow-[0_0_8px_#dc2626]' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}><Ban size={14} /></button>
@@ -251,15 +538,19 @@ export default function App() {
                 </div>
                 <div className="flex items-center gap-2 px-3 py-1.5 border-r border-zinc-800"><Layers size={14} className="text-zinc-500"/><div className="flex flex-col"><span className="text-[8px] text-zinc-500 font-bold uppercase">Material</span><select value={stockMaterial} onChange={(e) => setStockMaterial(e.target.value as MaterialType)} className="bg-transparent text-xs font-bold text-zinc-300 focus:outline-none cursor-pointer w-24"><option value="Steel">Acero</option><option value="Aluminum">Aluminio</option><option value="Wood">Madera</option><option value="Carbon Fiber">Fibra Carbono</option><option value="Epoxi">Epoxi</option><option value="POM">POM (Acetal)</option></select></div></div>
                 <div className="flex items-center gap-2 px-3 py-1.5 border-r border-zinc-800"><Ruler size={14} className="text-zinc-500" /><div className="flex flex-col"><span className="text-[8px] text-zinc-500 font-bold uppercase">Tolerancia (mm)</span><div className="flex items-center gap-1"><span className="text-xs text-zinc-400">±</span><input type="number" step="0.01" min="0.001" max="1.0" value={tolerance} onChange={(e) => setTolerance(parseFloat(e.target.value))} className="bg-transparent text-xs font-bold text-cnc-accent focus:outline-none w-12 border-b border-zinc-700 focus:border-cnc-accent text-center" /></div></div></div>
+                <button onClick={toggleSetup} disabled={!isSetupOpen && machineState !== MachineState.IDLE} className={`flex flex-col items-center justify-center w-12 h-full transition-colors group border-r border-zinc-800 ${isSetupOpen ? 'bg-cnc-accent/20' : 'hover:bg-zinc-800/50'}`} title="Preparación: medir herramientas en JOG (con la máquina parada)"><Target size={18} className={isSetupOpen ? 'text-cnc-accent' : 'text-zinc-500 group-hover:text-white'} /></button>
+                <button onClick={() => setIsOffsetPageOpen(true)} className="flex flex-col items-center justify-center w-12 h-full hover:bg-zinc-800/50 transition-colors group border-r border-zinc-800" title="Correctores de Herramienta (OFFSET)"><Wrench size={18} className="text-zinc-500 group-hover:text-white" /></button>
                 <button onClick={() => setIsSettingsModalOpen(true)} className="flex flex-col items-center justify-center w-12 h-full hover:bg-zinc-800/50 transition-colors group" title="Configuración de Máquina"><Settings size={18} className="text-zinc-500 group-hover:text-white" /></button>
             </div>
 
             <div className="bg-black border border-zinc-800 rounded px-4 py-1.5 flex items-center gap-4 font-lcd shadow-inner flex-1 min-w-0 max-w-2xl justify-between">
                 <div className="flex gap-3"><div className={`flex flex-col items-center justify-center w-8 h-8 rounded border border-white/10 ${simState.spindleDirection !== 'STOP' ? 'bg-zinc-800' : 'bg-red-900/20'}`}>{simState.spindleDirection === 'STOP' && <Octagon size={14} className="text-red-500" />}{simState.spindleDirection === 'CW' && <RotateCw size={14} className="text-green-500 animate-spin" />}{simState.spindleDirection === 'CCW' && <RotateCcw size={14} className="text-yellow-500 animate-spin" />}<span className="text-[8px] font-bold text-zinc-500 mt-0.5">RPM</span></div><div className={`flex flex-col items-center justify-center w-8 h-8 rounded border border-white/10 ${simState.coolant !== 'OFF' ? 'bg-blue-900/20' : 'bg-zinc-800'}`}><Droplets size={14} className={simState.coolant === 'FLOOD' ? "text-blue-500" : simState.coolant === 'MIST' ? "text-cyan-300" : "text-zinc-600"} /><span className="text-[8px] font-bold text-zinc-500 mt-0.5">{simState.coolant === 'OFF' ? 'OFF' : simState.coolant === 'MIST' ? 'MIST' : 'FULL'}</span></div></div>
                 <div className="h-8 w-px bg-zinc-800"></div>
-                <div className="flex flex-col justify-center"><div className="flex items-center gap-2"><span className="text-cnc-accent font-bold text-xs w-3">X</span><span className="text-zinc-100 text-sm tracking-widest bg-zinc-900/50 px-1 rounded min-w-[70px] text-right">{simState.x.toFixed(3)}</span></div><div className="flex items-center gap-2"><span className="text-cnc-accent font-bold text-xs w-3">Z</span><span className="text-zinc-100 text-sm tracking-widest bg-zinc-900/50 px-1 rounded min-w-[70px] text-right">{simState.z.toFixed(3)}</span></div></div>
+                <PositionDisplay state={simState} home={homePosition} />
+                 <div className="h-8 w-px bg-zinc-800"></div>
+                 <div className="grid grid-cols-4 gap-x-4 text-[10px]"><div className="flex flex-col"><span className="text-zinc-600 font-bold">MODO</span><span className={`font-bold ${machineState === MachineState.ALARM ? 'text-red-500 animate-pulse' : 'text-cnc-accent'}`}>{translateState(machineState)}</span></div><div className="flex flex-col"><span className="text-zinc-600 font-bold">HERR.</span><span className="text-white">T{simState.tool < 10 ? '0'+simState.tool : simState.tool}</span></div><div className="flex flex-col"><span className="text-zinc-600 font-bold">VELOCIDAD</span><span className={simState.spindleClamped ? 'text-amber-400' : 'text-white'} title={simState.spindleClamped ? 'Limitada por G50' : undefined}>{Math.round(simState.spindleSpeed)}</span></div><div className="flex flex-col relative group cursor-pointer" onClick={handleResetWear}><span className="text-zinc-600 font-bold flex items-center gap-1">DESGASTE <RefreshCw size={8}/></span><span className={`${activeToolConfig.wear > 80 ? 'text-red-500 animate-pulse' : activeToolConfig.wear > 50 ? 'text-yellow-500' : 'text-green-500'} font-bold`}>{activeToolConfig.wear.toFixed(1)}%</span></div></div>
                  <div className="h-8 w-px bg-zinc-800"></div>
-                 <div className="grid grid-cols-4 gap-x-4 text-[10px]"><div className="flex flex-col"><span className="text-zinc-600 font-bold">MODO</span><span className={`font-bold ${machineState === MachineState.ALARM ? 'text-red-500 animate-pulse' : 'text-cnc-accent'}`}>{translateState(machineState)}</span></div><div className="flex flex-col"><span className="text-zinc-600 font-bold">HERR.</span><span className="text-white">T{simState.tool < 10 ? '0'+simState.tool : simState.tool}</span></div><div className="flex flex-col"><span className="text-zinc-600 font-bold">VELOCIDAD</span><span className="text-white">{simState.spindleSpeed}</span></div><div className="flex flex-col relative group cursor-pointer" onClick={handleResetWear}><span className="text-zinc-600 font-bold flex items-center gap-1">DESGASTE <RefreshCw size={8}/></span><span className={`${activeToolConfig.wear > 80 ? 'text-red-500 animate-pulse' : activeToolConfig.wear > 50 ? 'text-yellow-500' : 'text-green-500'} font-bold`}>{activeToolConfig.wear.toFixed(1)}%</span></div></div>
+                 <div className="grid grid-cols-4 gap-x-1.5 text-[9px] font-bold text-zinc-400 tabular-nums" title="Códigos modales activos">{modalCodes(simState.modal).map(c => <span key={c}>{c}</span>)}</div>
             </div>
 
             <div className="flex items-center gap-3">
@@ -275,7 +566,15 @@ export default function App() {
                     <div className="px-4 py-3 bg-zinc-800/50 border-b border-zinc-800 flex items-center gap-2"><Terminal size={14} className="text-cnc-accent" /><span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Lección</span></div>
                     <div className="p-4 overflow-y-auto custom-scrollbar"><h2 className="text-white font-bold text-lg mb-2">{currentLesson.title}</h2><div className="prose prose-invert prose-sm text-zinc-400">{currentLesson.content.split('\n').map((line, i) => (<p key={i} className="mb-2 leading-relaxed">{line}</p>))}</div></div>
                 </div>
-                <div className="flex-1 min-h-0 shadow-lg rounded-xl overflow-hidden"><Editor code={code} onChange={setCode} activeLine={currentLine} /></div>
+                <div className="flex-1 min-h-0 shadow-lg rounded-xl overflow-hidden"><Editor code={code} onChange={handleCodeChange} readOnly={mode !== 'EDIT'} activeLine={runCommands[currentLine]?.program === editingProgram ? runCommands[currentLine].line - 1 : -1} diagnostics={diagnostics} selectedLine={selectedLine?.program === editingProgram ? selectedLine : null} onHoverLine={setHoveredLine} breakpoints={editorBreakpoints} onToggleBreakpoint={handleToggleBreakpoint} onCursorLine={setCursorLine}
+                    programs={programTabs} program={editingProgram} onSelectProgram={handleSelectProgram} onAddProgram={mode === 'EDIT' ? handleAddProgram : undefined} onRemoveProgram={mode === 'EDIT' ? handleRemoveProgram : undefined} /></div>
+                <ExecutionPanel machineState={machineState} block={runCommands[currentLine] ?? null} showPrograms={programs.length > 1 || mode === 'MDI'} singleBlock={singleBlock} onToggleSingleBlock={() => setSingleBlock(prev => !prev)}
+                    canStepBack={canStepBack} onStepBack={handleStepBack}
+                    cursorLine={cursorLine} canRunFromCursor={machineState !== MachineState.ALARM && !hasSyntaxErrors && runFromIndex !== -1} onRunFromCursor={handleRunFromCursor}
+                    breakpoints={[...breakpoints].map(key => key.split(':').map(Number)).sort((a, b) => a[0] - b[0] || a[1] - b[1]).map(([program, line]) => ({ program, line }))} onSelectLine={handleSelectLine} onClearBreakpoints={() => setBreakpoints(new Set())} />
+                {usesMacros && <VariablesPanel state={simState} />}
+                <DiagnosticsPanel diagnostics={diagnostics} />
+                <CycleTimePanel report={cycleTime.report} error={cycleTime.error ?? (hasSyntaxErrors ? 'El programa tiene errores de sintaxis' : undefined)} />
             </div>
             <div className="col-span-8 flex flex-col gap-4 z-10">
                 <div className="flex gap-2 mb-0 overflow-x-auto pb-1 bg-black/40 p-2 rounded border border-zinc-800 backdrop-blur-sm">
@@ -289,7 +588,15 @@ export default function App() {
                     <ShortcutButton k="0" label="Rot +45°" icon={<RotateCw size={14}/>} onClick={() => showToast("Acción: Rotar 45° CW")} />
                 </div>
                 <div className="flex-1 min-h-0 relative rounded-xl overflow-hidden border border-zinc-700 shadow-2xl">
-                    <Simulator commands={parsedCommands} machineState={machineState} currentLine={currentLine} feedOverride={feedOverride} stockMaterial={stockMaterial} manualSpindle={manualSpindle} onError={handleAlarm} onStateChange={setSimState} onRequestPause={handlePause} onRequestResume={handlePlay} tools={tools} onToolWear={updateToolWear} showPaths={showPaths} showTrace={showTrace} homePosition={homePosition} />
+                    <Simulator commands={runCommands} mdi={mode === 'MDI'} machineState={machineState} currentLine={currentLine} feedOverride={feedOverride} stockMaterial={stockMaterial} manualSpindle={manualSpindle} onError={handleAlarm} onStateChange={setSimState} onRequestPause={handlePause} onRequestResume={handlePlay} tools={tools} onToolWear={updateToolWear} showPaths={showPaths} showTrace={showTrace} homePosition={homePosition} workOffsets={workOffsets} toolOffsets={toolOffsets} manualPosition={manualPosition} softLimits={softLimits} onManualPosition={handleManualPosition} toolSetter={setterDeployed ? toolSetter : null} stockDiameter={currentLesson.stockDiameter} rapidRate={rapidRate} onBlockComplete={handleBlockComplete} highlightLine={hoveredBlock} onSelectLine={handleSelectLine} />
+                    {isSetupOpen && manualPosition && (
+                        <ToolSetupPanel position={manualPosition} tools={tools} offsets={toolOffsets} partZero={workOrigin(homePosition, workOffsets, DEFAULT_MODAL_STATE.coordinateSystem)} stockDiameter={currentLesson.stockDiameter}
+                            setter={toolSetter} setterDeployed={setterDeployed} onMove={moveManual} onToggleSetter={() => setSetterDeployed(prev => !prev)} onChangeOffsets={setToolOffsets} onClose={closeSetup} />
+                    )}
+                    {manualPosition && (
+                        <ManualPanel mode={mode} position={manualPosition} home={homePosition} feedOverride={feedOverride} rapidRate={rapidRate} overtravel={overtravel} busy={machineState !== MachineState.IDLE}
+                            onJog={handleJog} onReference={handleReference} mdiCode={mdiCode} onMdiChange={handleMdiChange} mdiDiagnostics={mdi.diagnostics[MDI_PROGRAM]} canCycleStart={mode === 'MDI' && canCycleStart} onCycleStart={handlePlay} />
+                    )}
                 </div>
                 <div className="h-48 shadow-lg"><GeminiTutor /></div>
             </div>
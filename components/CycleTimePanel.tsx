@@ -0,0 +1,75 @@
+import React from 'react';
+import { Timer, AlertTriangle } from 'lucide-react';
+import { CycleTimeReport } from '../services/cycleTimeAnalyzer';
+
+interface CycleTimePanelProps {
+  report: CycleTimeReport | null; // Null while it is worked out, or when there is none
+  error?: string; // Why there is no estimate
+}
+
+// Seconds as m:ss.s
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  return `${m}:${s < 10 ? '0' : ''}${s.toFixed(1)}`;
+};
+
+export const CycleTimePanel: React.FC<CycleTimePanelProps> = ({ report, error }) => {
+  if (!report) {
+    return (
+      <div className="bg-zinc-900/80 backdrop-blur rounded-xl border border-zinc-800 overflow-hidden flex flex-col shadow-lg">
+          <div className="px-4 py-2 bg-zinc-800/50 border-b border-zinc-800 flex items-center justify-between">
+              <div className="flex items-center gap-2"><Timer size={14} className="text-cnc-accent" /><span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Tiempo de Ciclo</span></div>
+              <span className="font-mono font-bold text-zinc-600 text-sm">-:--.-</span>
+          </div>
+          <div className="p-3 text-[10px] font-mono">
+              {error
+                ? <div className="flex items-center gap-2 text-red-400"><AlertTriangle size={12} className="shrink-0" /><span className="truncate" title={error}>Sin estimación: {error}</span></div>
+                : <span className="text-zinc-500">Calculando…</span>}
+          </div>
+      </div>
+    );
+  }
+
+  const cutShare = report.total > 0 ? (report.cutting / report.total) * 100 : 0;
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur rounded-xl border border-zinc-800 overflow-hidden flex flex-col shadow-lg">
+        <div className="px-4 py-2 bg-zinc-800/50 border-b border-zinc-800 flex items-center justify-between">
+            <div className="flex items-center gap-2"><Timer size={14} className="text-cnc-accent" /><span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Tiempo de Ciclo</span></div>
+            <span className="font-mono font-bold text-white text-sm tabular-nums">{formatTime(report.total)}</span>
+        </div>
+        <div className="p-3 flex flex-col gap-2 text-[10px]">
+            {report.error && (
+                <div className="flex items-center gap-2 text-red-400 font-mono"><AlertTriangle size={12} className="shrink-0" /><span className="truncate" title={report.error}>Estimación parcial: {report.error}</span></div>
+            )}
+            <div className="h-1.5 bg-zinc-800 rounded overflow-hidden flex" title={`Corte ${cutShare.toFixed(0)}%`}>
+                <div className="bg-orange-500" style={{ width: `${cutShare}%` }}></div>
+                <div className="bg-cyan-700 flex-1"></div>
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 font-mono">
+                <div className="flex justify-between"><span className="text-orange-400 font-bold">CORTE</span><span className="text-white tabular-nums">{formatTime(report.cutting)}</span></div>
+                <div className="flex justify-between"><span className="text-cyan-400 font-bold">SIN CORTE</span><span className="text-white tabular-nums">{formatTime(report.nonCutting)}</span></div>
+                <div className="flex justify-between text-zinc-500"><span>Rápidos</span><span className="tabular-nums">{formatTime(report.rapid)}</span></div>
+                <div className="flex justify-between text-zinc-500"><span>Cambio herr.</span><span className="tabular-nums">{formatTime(report.toolChange)}</span></div>
+                <div className="flex justify-between text-zinc-500"><span>Pausas G04</span><span className="tabular-nums">{formatTime(report.dwell)}</span></div>
+            </div>
+            {report.tools.length > 0 && (
+                <table className="w-full font-mono border-t border-zinc-800 mt-1">
+                    <thead><tr className="text-zinc-600 font-bold"><th className="text-left py-1">HERR.</th><th className="text-right">CORTE</th><th className="text-right">SIN CORTE</th><th className="text-right">TOTAL</th></tr></thead>
+                    <tbody>
+                        {report.tools.map(t => (
+                            <tr key={t.tool} className="text-zinc-300">
+                                <td className="text-cnc-accent font-bold">{t.tool}</td>
+                                <td className="text-right tabular-nums">{formatTime(t.cutting)}</td>
+                                <td className="text-right tabular-nums">{formatTime(t.nonCutting)}</td>
+                                <td className="text-right tabular-nums text-white">{formatTime(t.cutting + t.nonCutting)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    </div>
+  );
+};
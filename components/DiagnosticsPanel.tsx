@@ -0,0 +1,39 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { ParseDiagnostic } from '../types';
+
+interface DiagnosticsPanelProps {
+  diagnostics: ParseDiagnostic[];
+}
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics }) => {
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur rounded-xl border border-zinc-800 overflow-hidden flex flex-col shadow-lg">
+        <div className="px-4 py-2 bg-zinc-800/50 border-b border-zinc-800 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+                {errors > 0 ? <XCircle size={14} className="text-red-500" /> : warnings > 0 ? <AlertTriangle size={14} className="text-amber-400" /> : <CheckCircle2 size={14} className="text-green-500" />}
+                <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Diagnóstico</span>
+            </div>
+            <span className="font-mono text-[10px] font-bold"><span className={errors > 0 ? 'text-red-400' : 'text-zinc-600'}>{errors} errores</span> · <span className={warnings > 0 ? 'text-amber-400' : 'text-zinc-600'}>{warnings} avisos</span></span>
+        </div>
+        {diagnostics.length > 0 ? (
+            <ul className="max-h-28 overflow-y-auto p-2 flex flex-col gap-0.5 font-mono text-[10px]">
+                {diagnostics.map((d, i) => (
+                    <li key={i} className="flex items-start gap-2">
+                        <span className="text-zinc-500 tabular-nums shrink-0 w-12">L{d.line}:{d.startColumn}</span>
+                        <span className={`font-bold shrink-0 ${d.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>{d.severity === 'error' ? 'ERROR' : 'AVISO'}</span>
+                        <span className="text-zinc-300 flex-1">{d.message}</span>
+                        <span className="text-zinc-600 shrink-0">{d.code}</span>
+                    </li>
+                ))}
+            </ul>
+        ) : (
+            <div className="px-4 py-2 text-[10px] font-mono text-zinc-500">Programa sin errores de sintaxis</div>
+        )}
+        {errors > 0 && <div className="px-4 py-1.5 text-[10px] font-bold text-red-400 bg-red-900/20 border-t border-red-900/40">Corrija los errores para ejecutar el programa</div>}
+    </div>
+  );
+};
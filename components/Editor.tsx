@@ -1,21 +1,70 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { BookOpen, Plus, X } from 'lucide-react';
+import { ParseDiagnostic } from '../types';
+import { CODE_COMPLETIONS, CodeCompletion, getCodeDoc } from '../services/gcodeDocs';
+import { DEFAULT_PROGRAM_NUMBER, programName } from '../services/programLibrary';
 
 interface EditorProps {
   code: string;
   onChange: (val: string) => void;
   activeLine: number;
+  diagnostics?: ParseDiagnostic[];
+  selectedLine?: { line: number } | null; // 1-based; a new object selects again
+  onHoverLine?: (line: number | null) => void; // 1-based line under the mouse
+  breakpoints?: Set<number>; // 1-based lines
+  onToggleBreakpoint?: (line: number) => void; // Gutter click
+  onCursorLine?: (line: number) => void; // 1-based line holding the caret
+  programs?: { number: number; errors: boolean }[]; // Tabs of the program library, the main program first
+  program?: number; // O-number of the program shown
+  onSelectProgram?: (number: number) => void;
+  onAddProgram?: () => void;
+  onRemoveProgram?: (number: number) => void; // Subprograms only
+  readOnly?: boolean; // Outside EDIT mode the program can be read but not changed
 }
 
-const highlightGCode = (text: string) => {
+// Layout of the text area (leading-6, p-4), used to map the mouse and caret to text
+const LINE_HEIGHT = 24;
+const PADDING = 16;
+
+interface Piece {
+  start: number; // Column offset in the line (0-based)
+  text: string;
+  className: string;
+}
+
+const NO_DIAGNOSTICS: ParseDiagnostic[] = [];
+
+// Diagnostics grouped by 1-based line
+const byLine = (diagnostics: ParseDiagnostic[]) => {
+  const lines = new Map<number, ParseDiagnostic[]>();
+  diagnostics.forEach(d => lines.set(d.line, [...(lines.get(d.line) || []), d]));
+  return lines;
+};
+
+const highlightGCode = (text: string, diagnostics: Map<number, ParseDiagnostic[]>) => {
   return text.split('\n').map((line, i) => (
-    <div key={i} className="min-h-[1.5rem]">{renderLine(line)}</div>
+    <div key={i} className="min-h-[1.5rem]">{renderLine(line, diagnostics.get(i + 1) || [])}</div>
   ));
 };
 
-const renderLine = (line: string) => {
-  if (line.length === 0) return <span><br/></span>;
+interface GutterLineProps {
+  line: number; // 1-based
+  active: boolean;
+  severity?: 'error' | 'warning';
+  breakpoint: boolean;
+  onToggleBreakpoint?: (line: number) => void;
+}
 
-  const elements: React.ReactNode[] = [];
+// Memoized so that moving the active line re-renders two rows, not the whole program
+const GutterLine = React.memo(({ line, active, severity, breakpoint, onToggleBreakpoint }: GutterLineProps) => (
+  <div onClick={() => onToggleBreakpoint && onToggleBreakpoint(line)} title={breakpoint ? 'Quitar punto de parada' : 'Punto de parada'}
+      className={`leading-6 h-6 flex items-center justify-end gap-1.5 ${onToggleBreakpoint ? 'cursor-pointer hover:text-zinc-300' : ''} ${active ? 'text-yellow-500 font-bold' : severity === 'error' ? 'text-red-500' : severity ? 'text-amber-400' : ''}`}>
+      <span className={`w-2 h-2 rounded-full shrink-0 ${breakpoint ? 'bg-red-500 shadow-[0_0_4px_#ef4444]' : ''}`}></span>{line}
+  </div>
+));
+
+const tokenizeLine = (line: string): Piece[] => {
+  const pieces: Piece[] = [];
   const parenIdx = line.indexOf('(');
   const semiIdx = line.indexOf(';');
   let commentStart = -1;
@@ -32,17 +81,23 @@ const renderLine = (line: string) => {
     commentPart = line.substring(commentStart);
   }
 
-  const regex = /([A-Z])([-+]?[0-9]*\.?[0-9]*)/gi;
+  // Macro variables (#100) and keywords (IF, WHILE, SIN...) before plain address words
+  const regex = /(#\d*)|\b(IF|GOTO|WHILE|THEN|DO|END|EQ|NE|GT|GE|LT|LE|AND|OR|XOR|MOD|SIN|COS|TAN|ASIN|ACOS|ATAN|SQRT|ABS|ROUND|FIX|FUP|LN|EXP)(?=[\d\s[#]|$)|([A-Z])([-+]?[0-9]*\.?[0-9]*)/gi;
   let lastIndex = 0;
   let match;
 
   while ((match = regex.exec(codePart)) !== null) {
     if (match.index > lastIndex) {
-      elements.push(<span key={`pre-${match.index}`} className="text-zinc-600">{codePart.substring(lastIndex, match.index)}</span>);
+      pieces.push({ start: lastIndex, text: codePart.substring(lastIndex, match.index), className: 'text-zinc-600' });
     }
-    
-    const letter = match[1].toUpperCase();
-    const value = match[2];
+    lastIndex = regex.lastIndex;
+    if (match[1] || match[2]) {
+      pieces.push({ start: match.index, text: match[0], className: match[1] ? 'text-purple-400' : 'text-orange-400 font-bold' });
+      continue;
+    }
+
+    const letter = match[3].toUpperCase();
+    const value = match[4];
     
     let colorClass = 'text-gray-300';
     if (letter === 'G') colorClass = 'text-yellow-400 font-bold';
@@ -51,30 +106,70 @@ const renderLine = (line: string) => {
     else if (['F', 'S', 'T'].includes(letter)) colorClass = 'text-green-400';
     else if (letter === 'N') colorClass = 'text-zinc-500';
 
-    elements.push(
-      <span key={`tok-${match.index}`}>
-        <span className={colorClass}>{match[1]}</span>
-        <span className="text-zinc-200 font-mono">{value}</span>
-      </span>
-    );
-    lastIndex = regex.lastIndex;
+    pieces.push({ start: match.index, text: match[3], className: colorClass });
+    if (value) pieces.push({ start: match.index + 1, text: value, className: 'text-zinc-200 font-mono' });
   }
   
   if (lastIndex < codePart.length) {
-    elements.push(<span key="post-code" className="text-zinc-600">{codePart.substring(lastIndex)}</span>);
+    pieces.push({ start: lastIndex, text: codePart.substring(lastIndex), className: 'text-zinc-600' });
   }
   
   if (commentPart) {
-    elements.push(<span key="comment" className="text-zinc-500 italic">{commentPart}</span>);
+    pieces.push({ start: codePart.length, text: commentPart, className: 'text-zinc-500 italic' });
   }
 
+  return pieces;
+};
+
+const renderLine = (line: string, diagnostics: ParseDiagnostic[]) => {
+  if (line.length === 0) return <span><br/></span>;
+
+  // Cut pieces where a diagnostic starts or ends, then underline the covered parts
+  const cuts = diagnostics.flatMap(d => [d.startColumn - 1, d.endColumn - 1]);
+  const elements: React.ReactNode[] = [];
+  tokenizeLine(line).forEach(piece => {
+    const bounds = [piece.start, ...cuts.filter(c => c > piece.start && c < piece.start + piece.text.length).sort((a, b) => a - b), piece.start + piece.text.length];
+    for (let k = 0; k < bounds.length - 1; k++) {
+      const from = bounds[k];
+      const covering = diagnostics.filter(d => d.startColumn - 1 <= from && d.endColumn - 1 > from);
+      const squiggle = covering.length === 0 ? '' : covering.some(d => d.severity === 'error')
+        ? ' underline decoration-wavy decoration-red-500 underline-offset-4'
+        : ' underline decoration-wavy decoration-amber-400 underline-offset-4';
+      elements.push(<span key={from} className={piece.className + squiggle}>{line.substring(from, bounds[k + 1])}</span>);
+    }
+  });
+
   return <>{elements}</>;
 };
 
-export const Editor: React.FC<EditorProps> = ({ code, onChange, activeLine }) => {
+// G or M word being typed right before the caret, e.g. "G7" in "N60 G7"
+const typedCode = (code: string, caret: number) => {
+  const lineStart = code.lastIndexOf('\n', caret - 1) + 1;
+  const match = code.substring(lineStart, caret).match(/(?:^|[\s\d])([GM]\d{0,3})$/i);
+  if (!match) return null;
+  const word = match[1].toUpperCase();
+  const items = CODE_COMPLETIONS.filter(c => c.code.startsWith(word) || c.code.replace(/^([GM])0/, '$1').startsWith(word));
+  return items.length > 0 ? { items, start: caret - word.length, word } : null;
+};
+
+export const Editor: React.FC<EditorProps> = ({ code, onChange, activeLine, diagnostics = NO_DIAGNOSTICS, selectedLine, onHoverLine, breakpoints, onToggleBreakpoint, onCursorLine,
+  programs, program = DEFAULT_PROGRAM_NUMBER, onSelectProgram, onAddProgram, onRemoveProgram, readOnly = false }) => {
   const lines = code.split('\n');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const lineRef = useRef<HTMLDivElement>(null);
+  const selectedRef = useRef<HTMLDivElement>(null);
+  const hoveredLine = useRef<number | null>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const pendingCaret = useRef<number | null>(null);
+  const [charWidth, setCharWidth] = useState(8.4);
+  const [hover, setHover] = useState<{ line: number; column: number; x: number; y: number } | null>(null);
+  const [completion, setCompletion] = useState<{ items: CodeCompletion[]; start: number; word: string; selected: number } | null>(null);
+  const [typedLocked, setTypedLocked] = useState(false); // Typed into the read-only program: say why nothing happens
+
+  useEffect(() => setTypedLocked(false), [readOnly]);
+  // Long CAM programs: highlight once per edit, not on every active-line change
+  const diagnosticsByLine = useMemo(() => byLine(diagnostics), [diagnostics]);
+  const highlighted = useMemo(() => highlightGCode(code, diagnosticsByLine), [code, diagnosticsByLine]);
 
   // Auto-scroll to active line
   useEffect(() => {
@@ -83,35 +178,135 @@ export const Editor: React.FC<EditorProps> = ({ code, onChange, activeLine }) =>
     }
   }, [activeLine]);
 
+  // Select the line picked on the toolpath and bring it into view
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!selectedLine || !textarea) return;
+    const start = lines.slice(0, selectedLine.line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(start, start + (lines[selectedLine.line - 1] ?? '').length);
+    if (selectedRef.current) selectedRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [selectedLine]);
+
+  useEffect(() => {
+    if (measureRef.current) setCharWidth(measureRef.current.getBoundingClientRect().width / 10 || 8.4);
+  }, []);
+
+  // Put the caret after an accepted completion once the new text is rendered
+  useEffect(() => {
+    if (pendingCaret.current !== null && textareaRef.current) {
+        textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+        pendingCaret.current = null;
+    }
+  }, [code]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    const found = typedCode(e.target.value, e.target.selectionStart);
+    setCompletion(found ? { ...found, selected: 0 } : null);
+  };
+
+  const acceptCompletion = (item: CodeCompletion) => {
+    if (!completion) return;
+    const end = completion.start + completion.word.length;
+    const text = code.substring(0, completion.start) + item.template + code.substring(end);
+    pendingCaret.current = completion.start + item.template.length;
+    setCompletion(null);
+    onChange(text);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (readOnly && !e.ctrlKey && !e.metaKey && (e.key.length === 1 || e.key === 'Backspace' || e.key === 'Delete' || e.key === 'Enter')) setTypedLocked(true);
+    if (!completion) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCompletion({ ...completion, selected: (completion.selected + step + completion.items.length) % completion.items.length });
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        acceptCompletion(completion.items[completion.selected]);
+    } else if (e.key === 'Escape') {
+        setCompletion(null);
+    }
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    if (onCursorLine) onCursorLine(code.substring(0, e.currentTarget.selectionStart).split('\n').length);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const line = Math.floor((y - PADDING) / LINE_HEIGHT);
+    const column = Math.floor((x - PADDING) / charWidth);
+    const overLine = line >= 0 && line < lines.length ? line + 1 : null;
+    if (overLine !== hoveredLine.current) {
+        hoveredLine.current = overLine;
+        if (onHoverLine) onHoverLine(overLine);
+    }
+    if (line < 0 || line >= lines.length || column < 0 || column >= lines[line].length) setHover(null);
+    else if (!hover || hover.line !== line || hover.column !== column) setHover({ line, column, x, y });
+  };
+
+  // Diagnostics and the lesson card for the word under the mouse
+  const hoverCard = (() => {
+    if (!hover) return null;
+    const text = lines[hover.line];
+    const problems = diagnostics.filter(d => d.line === hover.line + 1 && d.startColumn - 1 <= hover.column && d.endColumn - 1 > hover.column);
+    const regex = /([GM])\s*(\d+)/gi;
+    let word: RegExpExecArray | null;
+    while ((word = regex.exec(text)) !== null && word.index + word[0].length <= hover.column);
+    const inWord = word !== null && word.index <= hover.column && !/[(;]/.test(text.substring(0, word.index));
+    const doc = inWord ? getCodeDoc(word![1] + word![2]) : undefined;
+    if (problems.length === 0 && !doc) return null;
+    return { problems, doc };
+  })();
+
   return (
     <div className="flex flex-col h-full bg-cnc-900 border border-cnc-700 font-mono text-sm rounded-lg overflow-hidden shadow-inner">
-      <div className="bg-cnc-850 text-cnc-accent px-4 py-2 text-xs font-bold border-b border-cnc-700 flex justify-between items-center shadow-sm">
-        <span className="tracking-widest">MODO EDICIÓN</span>
-        <span className="text-zinc-500">O1001.NC</span>
+      <div className="bg-cnc-850 text-cnc-accent px-4 py-2 text-xs font-bold border-b border-cnc-700 flex justify-between items-center gap-3 shadow-sm">
+        <span className={`tracking-widest shrink-0 ${typedLocked ? 'text-orange-400' : readOnly ? 'text-zinc-500' : ''}`} title={readOnly ? 'Seleccione EDIT en el panel para modificar el programa' : undefined}>{readOnly ? (typedLocked ? 'SOLO LECTURA · SELECCIONE EDIT' : 'SOLO LECTURA') : 'MODO EDICIÓN'}</span>
+        {programs ? (
+            <div className="flex items-center gap-1 min-w-0 overflow-x-auto">
+                {programs.map((p, i) => (
+                    <div key={p.number} className={`flex items-center gap-1 px-2 py-0.5 rounded border shrink-0 ${p.number === program ? 'bg-zinc-800 border-zinc-600 text-cnc-accent' : 'border-transparent text-zinc-500 hover:text-zinc-300'}`}>
+                        {p.errors && <span className="w-1.5 h-1.5 rounded-full bg-red-500" title="Errores de sintaxis"></span>}
+                        <button onClick={() => onSelectProgram && onSelectProgram(p.number)} title={i === 0 ? 'Programa principal' : `Subprograma: M98 P${p.number}`}>{programName(p.number)}.NC</button>
+                        {i > 0 && onRemoveProgram && <button onClick={() => onRemoveProgram(p.number)} title="Eliminar subprograma" className="text-zinc-600 hover:text-red-400"><X size={10} /></button>}
+                    </div>
+                ))}
+                {onAddProgram && <button onClick={onAddProgram} title="Nuevo subprograma" className="p-0.5 text-zinc-500 hover:text-cnc-accent shrink-0"><Plus size={12} /></button>}
+            </div>
+        ) : (
+            <span className="text-zinc-500">{programName(program)}.NC</span>
+        )}
       </div>
       
       <div className="flex-1 overflow-auto relative flex bg-[#0c0c0c]">
         {/* Line Numbers */}
-        <div className="bg-cnc-900 text-zinc-600 py-4 px-3 text-right select-none border-r border-cnc-800 min-h-full font-mono text-xs">
-          {lines.map((_, i) => (
-            <div key={i} className={`leading-6 h-6 ${i === activeLine ? 'text-yellow-500 font-bold' : ''}`}>{i + 1}</div>
-          ))}
+        <div className="bg-cnc-900 text-zinc-600 py-4 pl-1.5 pr-3 text-right select-none border-r border-cnc-800 min-h-full font-mono text-xs">
+          {lines.map((_, i) => {
+            const problems = diagnosticsByLine.get(i + 1);
+            const severity = problems ? (problems.some(d => d.severity === 'error') ? 'error' : 'warning') : undefined;
+            return <GutterLine key={i} line={i + 1} active={i === activeLine} severity={severity} breakpoint={!!breakpoints?.has(i + 1)} onToggleBreakpoint={onToggleBreakpoint} />;
+          })}
         </div>
 
         {/* Editor Area */}
         <div className="flex-1 relative min-w-0 grid place-items-start">
+             <span ref={measureRef} className="absolute invisible font-mono text-sm whitespace-pre" aria-hidden="true">0000000000</span>
              <div className="absolute top-4 left-0 right-0 pointer-events-none z-0">
-                {lines.map((_, i) => (
-                    <div 
-                        key={i} 
-                        ref={i === activeLine ? lineRef : null}
-                        className={`h-6 w-full transition-colors duration-100 ${i === activeLine ? 'bg-zinc-800/60 border-l-2 border-yellow-500' : ''}`}
-                    ></div>
-                ))}
+                {selectedLine && selectedLine.line - 1 !== activeLine && selectedLine.line <= lines.length && (
+                    <div ref={selectedRef} className="absolute h-6 w-full bg-cyan-900/30 border-l-2 border-cyan-400" style={{ top: (selectedLine.line - 1) * LINE_HEIGHT }}></div>
+                )}
+                {activeLine >= 0 && activeLine < lines.length && (
+                    <div ref={lineRef} className="absolute h-6 w-full bg-zinc-800/60 border-l-2 border-yellow-500 transition-[top] duration-100" style={{ top: activeLine * LINE_HEIGHT }}></div>
+                )}
             </div>
 
             <pre className="p-4 m-0 font-mono text-sm leading-6 whitespace-pre pointer-events-none row-start-1 col-start-1 z-10 w-full font-inherit">
-                {highlightGCode(code)}
+                {highlighted}
                 <br /> 
             </pre>
 
@@ -119,14 +314,64 @@ export const Editor: React.FC<EditorProps> = ({ code, onChange, activeLine }) =>
                 ref={textareaRef}
                 className="p-4 m-0 font-mono text-sm leading-6 whitespace-pre bg-transparent text-transparent caret-yellow-500 outline-none resize-none overflow-hidden row-start-1 col-start-1 z-20 w-full h-full block"
                 value={code}
-                onChange={(e) => onChange(e.target.value)}
+                readOnly={readOnly}
+                onChange={handleChange}
+                onKeyDown={handleKeyDown}
+                onPaste={() => readOnly && setTypedLocked(true)}
+                onSelect={handleSelect}
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => {
+                    setHover(null);
+                    hoveredLine.current = null;
+                    if (onHoverLine) onHoverLine(null);
+                }}
+                onBlur={() => setCompletion(null)}
+                onClick={() => setCompletion(null)}
                 spellCheck={false}
                 autoCapitalize="off"
                 autoComplete="off"
                 autoCorrect="off"
             />
+
+            {completion && (() => {
+                const lineIndex = code.substring(0, completion.start).split('\n').length - 1;
+                const column = completion.start - (code.lastIndexOf('\n', completion.start - 1) + 1);
+                return (
+                    <ul className="absolute z-40 min-w-[16rem] max-h-56 overflow-y-auto bg-zinc-900 border border-zinc-700 rounded shadow-xl text-xs py-1"
+                        style={{ top: PADDING + (lineIndex + 1) * LINE_HEIGHT, left: PADDING + column * charWidth }}>
+                        {completion.items.map((item, i) => (
+                            <li key={item.code}
+                                onMouseDown={(e) => { e.preventDefault(); acceptCompletion(item); }}
+                                className={`px-2 py-1 flex items-center gap-3 cursor-pointer ${i === completion.selected ? 'bg-cnc-accent/20 text-white' : 'text-zinc-400 hover:bg-zinc-800'}`}>
+                                <span className={`font-bold w-10 ${item.code[0] === 'G' ? 'text-yellow-400' : 'text-pink-500'}`}>{item.code}</span>
+                                <span className="flex-1">{item.label}</span>
+                                {item.template.includes('\n') && <span className="text-[9px] text-zinc-500">2 bloques</span>}
+                            </li>
+                        ))}
+                    </ul>
+                );
+            })()}
+
+            {hoverCard && hover && !completion && (
+                <div className="absolute z-30 max-w-sm bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-3 text-xs pointer-events-none flex flex-col gap-2"
+                    style={{ top: hover.y + 16, left: Math.max(8, hover.x - 24) }}>
+                    {hoverCard.problems.map((d, i) => (
+                        <div key={i} className={`font-bold ${d.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>{d.message} <span className="text-zinc-600 font-normal">[{d.code}]</span></div>
+                    ))}
+                    {hoverCard.doc && (
+                        <>
+                            <div className="flex items-center gap-2 text-cnc-accent font-bold"><BookOpen size={12} />{hoverCard.doc.title}</div>
+                            {hoverCard.doc.description && <div className="text-zinc-300 font-sans leading-snug">{hoverCard.doc.description}</div>}
+                            {hoverCard.doc.syntax.length > 0 && (
+                                <div className="bg-black/60 rounded px-2 py-1 text-yellow-300 whitespace-pre">{hoverCard.doc.syntax.join('\n')}</div>
+                            )}
+                            {hoverCard.doc.lessonTitle && <div className="text-[10px] text-zinc-500">Lección: {hoverCard.doc.lessonTitle}</div>}
+                        </>
+                    )}
+                </div>
+            )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
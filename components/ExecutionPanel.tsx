@@ -0,0 +1,69 @@
+import React from 'react';
+import { Bug, Footprints, StepBack, TextCursor, Trash2 } from 'lucide-react';
+import { MachineState, SourceLine } from '../types';
+import { programName } from '../services/programLibrary';
+
+interface ExecutionPanelProps {
+  machineState: MachineState;
+  block: SourceLine | null; // Block being run
+  showPrograms: boolean; // Name the program of each block: the library holds subprograms
+  singleBlock: boolean;
+  onToggleSingleBlock: () => void;
+  canStepBack: boolean;
+  onStepBack: () => void;
+  cursorLine: number;
+  canRunFromCursor: boolean;
+  onRunFromCursor: () => void;
+  breakpoints: SourceLine[];
+  onSelectLine: (line: number, program?: number) => void;
+  onClearBreakpoints: () => void;
+}
+
+export const ExecutionPanel: React.FC<ExecutionPanelProps> = ({
+  machineState, block, showPrograms, singleBlock, onToggleSingleBlock, canStepBack, onStepBack,
+  cursorLine, canRunFromCursor, onRunFromCursor, breakpoints, onSelectLine, onClearBreakpoints
+}) => {
+  const at = (b: SourceLine) => block !== null && b.line === block.line && b.program === block.program;
+  const stopped = machineState === MachineState.PAUSED && breakpoints.some(at);
+  const label = (b: SourceLine) => `${showPrograms && b.program !== undefined ? `${programName(b.program)} ` : ''}L${b.line}`;
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur rounded-xl border border-zinc-800 overflow-hidden flex flex-col shadow-lg">
+        <div className="px-4 py-2 bg-zinc-800/50 border-b border-zinc-800 flex items-center justify-between">
+            <div className="flex items-center gap-2"><Bug size={14} className="text-cnc-accent" /><span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Ejecución</span></div>
+            <span className="font-mono text-[10px] font-bold text-zinc-500">
+                {block !== null && machineState !== MachineState.IDLE ? <span className={stopped ? 'text-red-400' : 'text-yellow-500'}>BLOQUE {label(block)}{stopped ? ' · PARADA' : ''}</span> : 'SIN EJECUCIÓN'}
+            </span>
+        </div>
+        <div className="p-2 flex flex-col gap-2 text-[10px] font-bold">
+            <div className="grid grid-cols-3 gap-1.5">
+                <button onClick={onToggleSingleBlock} title="Inicio Ciclo ejecuta un solo bloque"
+                    className={`flex items-center justify-center gap-1.5 px-2 py-1.5 rounded border transition-all ${singleBlock ? 'bg-yellow-500/20 border-yellow-500 text-yellow-400' : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:text-white'}`}>
+                    <Footprints size={12} />BLOQUE A BLOQUE
+                </button>
+                <button onClick={onStepBack} disabled={!canStepBack} title="Volver al inicio del bloque anterior"
+                    className={`flex items-center justify-center gap-1.5 px-2 py-1.5 rounded border border-zinc-700 transition-all ${canStepBack ? 'bg-zinc-800 text-zinc-300 hover:text-white hover:bg-zinc-700' : 'bg-zinc-900 text-zinc-600 cursor-not-allowed'}`}>
+                    <StepBack size={12} />BLOQUE ANTERIOR
+                </button>
+                <button onClick={onRunFromCursor} disabled={!canRunFromCursor} title="Restaura el estado modal hasta la línea del cursor y ejecuta desde ella"
+                    className={`flex items-center justify-center gap-1.5 px-2 py-1.5 rounded border transition-all ${canRunFromCursor ? 'bg-green-900/30 border-green-700 text-green-400 hover:bg-green-800/40' : 'bg-zinc-900 border-zinc-700 text-zinc-600 cursor-not-allowed'}`}>
+                    <TextCursor size={12} />DESDE L{cursorLine}
+                </button>
+            </div>
+            <div className="flex items-center gap-2 font-mono">
+                <span className="text-zinc-600 shrink-0">PARADAS</span>
+                {breakpoints.length > 0 ? (
+                    <div className="flex-1 flex flex-wrap gap-1">
+                        {breakpoints.map(b => (
+                            <button key={`${b.program}:${b.line}`} onClick={() => onSelectLine(b.line, b.program)} className={`px-1.5 rounded border ${at(b) && machineState !== MachineState.IDLE ? 'border-red-500 text-red-300 bg-red-900/40' : 'border-red-900/60 text-red-400 bg-red-950/40 hover:text-red-300'}`}>{label(b)}</button>
+                        ))}
+                    </div>
+                ) : (
+                    <span className="flex-1 text-zinc-600 font-normal">Haga clic en el número de línea para añadir una</span>
+                )}
+                {breakpoints.length > 0 && <button onClick={onClearBreakpoints} title="Quitar todas" className="text-zinc-500 hover:text-red-400"><Trash2 size={12} /></button>}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface JogPadProps {
+  onJog: (axis: 'x' | 'z', direction: 1 | -1) => void; // On click, or on key down when `onRelease` is given
+  onRelease?: () => void; // Hold-to-jog: the move lasts while the key is held
+  disabled?: boolean;
+}
+
+// Laid out as seen on the screen: X up, Z to the right
+const KEYS: { axis: 'x' | 'z'; direction: 1 | -1; label: string; cell: string }[] = [
+  { axis: 'x', direction: 1, label: 'X+', cell: 'col-start-2 row-start-1' },
+  { axis: 'z', direction: -1, label: 'Z−', cell: 'col-start-1 row-start-2' },
+  { axis: 'z', direction: 1, label: 'Z+', cell: 'col-start-3 row-start-2' },
+  { axis: 'x', direction: -1, label: 'X−', cell: 'col-start-2 row-start-3' }
+];
+
+/** Jog keys of the operator panel */
+export const JogPad: React.FC<JogPadProps> = ({ onJog, onRelease, disabled }) => (
+  <div className="grid grid-cols-3 gap-1 w-28">
+      {KEYS.map(k => (
+          <button key={k.label} disabled={disabled}
+              {...(onRelease
+                ? { onPointerDown: () => onJog(k.axis, k.direction), onPointerUp: onRelease, onPointerLeave: onRelease, onPointerCancel: onRelease }
+                : { onClick: () => onJog(k.axis, k.direction) })}
+              className={`py-1.5 rounded bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-bold disabled:opacity-40 ${onRelease ? 'active:bg-cnc-accent active:text-black select-none touch-none' : ''} ${k.cell}`}>{k.label}</button>
+      ))}
+  </div>
+);
@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Disc3, Hand, Home, Keyboard, Play } from 'lucide-react';
+import { ManualPosition, ParseDiagnostic } from '../types';
+import { HANDLE_INCREMENTS, JOG_FEED, JOG_INCREMENTS, OperatingMode } from '../services/operatingModes';
+import { JogPad } from './JogPad';
+
+interface ManualPanelProps {
+  mode: OperatingMode; // MDI, JOG, HANDLE or REFERENCE
+  position: ManualPosition;
+  home: { x: number; z: number };
+  feedOverride: number; // % of the jog feed
+  rapidRate: number; // Jog with RAPID held (mm/min)
+  overtravel: string | null; // Soft limit the last move ran into
+  busy: boolean; // MDI blocks running or an alarm: the axes don't answer the panel
+  onJog: (axis: 'x' | 'z', distance: number) => void; // Distance on the reading (X as a diameter)
+  onReference: (axis: 'x' | 'z') => void;
+  mdiCode: string;
+  onMdiChange: (code: string) => void;
+  mdiDiagnostics: ParseDiagnostic[];
+  canCycleStart: boolean;
+  onCycleStart: () => void;
+}
+
+const JOG_TICK_MS = 50; // Continuous jog: one move per tick while the key is held
+const NOTCH_ANGLE = 3.6; // 100 notches per turn of the handwheel
+
+const TITLES: Partial<Record<OperatingMode, string>> = { MDI: 'MDI', JOG: 'JOG', HANDLE: 'VOLANTE (MPG)', REFERENCE: 'RETORNO A REFERENCIA' };
+
+/**
+ * Manual side of the operator panel: the jog keys, the handwheel, reference
+ * return and the MDI buffer, depending on the mode switch.
+ */
+export const ManualPanel: React.FC<ManualPanelProps> = ({
+  mode, position, home, feedOverride, rapidRate, overtravel, busy, onJog, onReference, mdiCode, onMdiChange, mdiDiagnostics, canCycleStart, onCycleStart
+}) => {
+  const [continuous, setContinuous] = useState(true);
+  const [rapid, setRapid] = useState(false);
+  const [increment, setIncrement] = useState<number>(JOG_INCREMENTS[2]);
+  const [handIncrement, setHandIncrement] = useState<number>(HANDLE_INCREMENTS[2]);
+  const [handAxis, setHandAxis] = useState<'x' | 'z'>('z');
+  const [notches, setNotches] = useState(0); // Turned so far, for the dial
+  const dialRef = useRef<HTMLDivElement>(null);
+  const heldRef = useRef<number | null>(null); // Interval of the jog key held down
+
+  // Timers and the wheel listener outlive a render: they call the latest props through refs
+  const jogRef = useRef(onJog);
+  jogRef.current = onJog;
+  const turnRef = useRef((_: number) => {});
+  turnRef.current = (n: number) => {
+    if (busy) return;
+    setNotches(prev => prev + n);
+    onJog(handAxis, n * handIncrement);
+  };
+
+  const release = () => {
+    if (heldRef.current !== null) window.clearInterval(heldRef.current);
+    heldRef.current = null;
+  };
+
+  // Continuous jog moves at the jog feed (or rapid) scaled by the override; X reads as a diameter, twice the travel
+  const press = (axis: 'x' | 'z', direction: 1 | -1) => {
+    if (busy) return;
+    if (!continuous) {
+      onJog(axis, direction * increment);
+      return;
+    }
+    release();
+    const feed = rapid ? rapidRate : JOG_FEED * feedOverride / 100;
+    const step = direction * (feed / 60) * (JOG_TICK_MS / 1000) * (axis === 'x' ? 2 : 1);
+    jogRef.current(axis, step);
+    heldRef.current = window.setInterval(() => jogRef.current(axis, step), JOG_TICK_MS);
+  };
+
+  useEffect(() => {
+    if (busy) release();
+  }, [busy]);
+  useEffect(() => release, [mode]);
+
+  // The mouse wheel turns the handwheel one notch per click; the page must not scroll
+  useEffect(() => {
+    const dial = dialRef.current;
+    if (!dial) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      if (e.deltaY !== 0) turnRef.current(e.deltaY < 0 ? 1 : -1);
+    };
+    dial.addEventListener('wheel', onWheel, { passive: false });
+    return () => dial.removeEventListener('wheel', onWheel);
+  }, [mode]);
+
+  const handleDialKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const turn = ({ ArrowUp: 1, ArrowRight: 1, '+': 1, ArrowDown: -1, ArrowLeft: -1, '-': -1 } as Record<string, number>)[e.key];
+    if (turn) {
+      e.preventDefault();
+      turnRef.current(turn);
+    } else if (e.key === 'x' || e.key === 'X' || e.key === 'z' || e.key === 'Z') {
+      setHandAxis(e.key.toLowerCase() as 'x' | 'z');
+    }
+  };
+
+  const incrementButtons = (steps: readonly number[], labels: string[], selected: number | null, onSelect: (step: number) => void) => (
+      <div className="grid grid-cols-3 gap-1">
+          {steps.map((s, i) => (
+              <button key={s} onClick={() => onSelect(s)} title={`${s} mm`}
+                  className={`py-0.5 rounded text-[10px] font-mono font-bold ${s === selected ? 'bg-cnc-accent text-black' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}>{labels[i]}</button>
+          ))}
+      </div>
+  );
+
+  const errors = mdiDiagnostics.filter(d => d.severity === 'error');
+
+  return (
+    <div className="absolute bottom-4 right-4 z-30 w-72 bg-cnc-900/95 border border-cnc-700 rounded-xl p-4 shadow-2xl backdrop-blur space-y-3">
+        <h3 className="text-sm font-bold text-white flex items-center gap-2 border-b border-cnc-800 pb-2">
+            {mode === 'MDI' ? <Keyboard className="text-cnc-accent" size={16} /> : mode === 'HANDLE' ? <Disc3 className="text-cnc-accent" size={16} /> : mode === 'REFERENCE' ? <Home className="text-cnc-accent" size={16} /> : <Hand className="text-cnc-accent" size={16} />}
+            <span className="tracking-wider">{TITLES[mode]}</span>
+        </h3>
+
+        {mode === 'JOG' && (
+            <div className="flex items-center gap-3">
+                <JogPad onJog={press} onRelease={release} disabled={busy} />
+                <div className="flex-1 space-y-1">
+                    <button onClick={() => setContinuous(true)} className={`w-full py-0.5 rounded text-[10px] font-bold tracking-wider ${continuous ? 'bg-cnc-accent text-black' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}>CONTINUO</button>
+                    {incrementButtons(JOG_INCREMENTS, JOG_INCREMENTS.map(String), continuous ? null : increment, s => { setIncrement(s); setContinuous(false); })}
+                    <button onClick={() => setRapid(prev => !prev)} disabled={!continuous} title="Con RÁPIDO el jog continuo va al avance rápido de la máquina"
+                        className={`w-full py-0.5 rounded text-[10px] font-bold tracking-wider border disabled:opacity-40 ${rapid ? 'border-red-500 text-red-400 bg-red-900/20' : 'border-zinc-700 text-zinc-400 hover:text-white'}`}>RÁPIDO</button>
+                </div>
+            </div>
+        )}
+
+        {mode === 'HANDLE' && (
+            <div className="flex items-center gap-3">
+                <div ref={dialRef} tabIndex={0} onKeyDown={handleDialKey} title="Gire con la rueda del ratón o con las flechas (X/Z cambia de eje)"
+                    className="relative w-24 h-24 rounded-full bg-zinc-800 border-4 border-zinc-700 shadow-inner outline-none focus:border-cnc-accent cursor-ns-resize shrink-0">
+                    <div className="absolute inset-0" style={{ transform: `rotate(${notches * NOTCH_ANGLE}deg)` }}>
+                        <div className="absolute left-1/2 top-1.5 -translate-x-1/2 w-2.5 h-2.5 rounded-full bg-cnc-accent"></div>
+                    </div>
+                    <span className="absolute inset-0 flex items-center justify-center font-mono text-xs font-bold text-white">{handAxis.toUpperCase()}</span>
+                </div>
+                <div className="flex-1 space-y-1">
+                    <span className="block text-[10px] font-bold text-zinc-500 uppercase">Eje</span>
+                    <div className="grid grid-cols-2 gap-1">
+                        {(['x', 'z'] as const).map(a => (
+                            <button key={a} onClick={() => setHandAxis(a)} className={`py-0.5 rounded text-[10px] font-bold ${a === handAxis ? 'bg-cnc-accent text-black' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}>{a.toUpperCase()}</button>
+                        ))}
+                    </div>
+                    <span className="block text-[10px] font-bold text-zinc-500 uppercase">mm por marca</span>
+                    {incrementButtons(HANDLE_INCREMENTS, ['×1', '×10', '×100'], handIncrement, setHandIncrement)}
+                </div>
+            </div>
+        )}
+
+        {mode === 'REFERENCE' && (
+            <div className="grid grid-cols-2 gap-2">
+                {(['x', 'z'] as const).map(a => (
+                    <button key={a} onClick={() => onReference(a)} disabled={busy} className="py-1.5 rounded bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-40">
+                        {a.toUpperCase()}
+                        <span className={`w-2 h-2 rounded-full ${position[a] === home[a] ? 'bg-green-500 shadow-[0_0_4px_#22c55e]' : 'bg-zinc-600'}`} title={position[a] === home[a] ? 'En referencia' : undefined}></span>
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {mode === 'MDI' && (
+            <div className="space-y-2">
+                <textarea value={mdiCode} onChange={(e) => onMdiChange(e.target.value)} readOnly={busy} rows={4} spellCheck={false} placeholder={'G00 X50. Z2.\nM03 S800'}
+                    className="w-full bg-black border border-zinc-700 rounded px-2 py-1 text-white font-mono text-xs focus:border-cnc-accent outline-none resize-none" />
+                {errors.slice(0, 2).map((d, i) => <p key={i} className="text-[10px] font-mono text-red-400">L{d.line}: {d.message}</p>)}
+                <button onClick={onCycleStart} disabled={!canCycleStart} className="w-full py-1 rounded bg-green-600 hover:bg-green-500 text-white text-xs font-bold tracking-wider flex items-center justify-center gap-2 disabled:bg-zinc-800 disabled:text-zinc-600"><Play size={12} fill="currentColor" />INICIO CICLO</button>
+            </div>
+        )}
+
+        {overtravel && (
+            <div className="flex items-center gap-1.5 text-[10px] font-bold text-amber-400 bg-amber-900/20 border border-amber-700/50 rounded px-2 py-1">
+                <AlertTriangle size={12} className="shrink-0" />
+                <span>SOBRECARRERA {overtravel}: límite de software</span>
+            </div>
+        )}
+        <p className="text-[10px] text-zinc-500 leading-relaxed">
+            {mode === 'MDI' ? 'Los bloques se ejecutan desde donde está la herramienta, con la herramienta y el husillo actuales. Pueden llamar a los subprogramas con M98.'
+                : mode === 'HANDLE' ? 'Cada marca del volante mueve el eje elegido un incremento (X en diámetro). Con el husillo en marcha el movimiento corta.'
+                : mode === 'REFERENCE' ? 'Cada eje vuelve por separado al punto de referencia. Retire primero el eje que aleja la herramienta de la pieza.'
+                : 'Mantenga pulsada una tecla para el jog continuo al avance de jog por el porcentaje de avance, o elija un incremento para moverse paso a paso.'}
+        </p>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { OperatingMode } from '../services/operatingModes';
+
+interface ModeSelectorProps {
+  mode: OperatingMode;
+  locked: boolean; // A program is running or paused: the switch can't move
+  onChange: (mode: OperatingMode) => void;
+}
+
+const MODES: { mode: OperatingMode; label: string; title: string }[] = [
+  { mode: 'EDIT', label: 'EDIT', title: 'Edición: el programa se puede modificar' },
+  { mode: 'MEMORY', label: 'MEM', title: 'Memoria: inicio de ciclo ejecuta el programa' },
+  { mode: 'MDI', label: 'MDI', title: 'MDI: inicio de ciclo ejecuta los bloques escritos a mano' },
+  { mode: 'JOG', label: 'JOG', title: 'Jog: movimiento manual continuo o por incrementos' },
+  { mode: 'HANDLE', label: 'HANDLE', title: 'Volante (MPG): cada marca mueve un incremento' },
+  { mode: 'REFERENCE', label: 'REF', title: 'Retorno al punto de referencia, eje por eje' }
+];
+
+/** Mode switch of the operator panel */
+export const ModeSelector: React.FC<ModeSelectorProps> = ({ mode, locked, onChange }) => (
+  <div className="grid grid-cols-3 gap-0.5 p-1.5 border-r border-zinc-800" title={locked ? 'Pare el programa (Reset) para cambiar de modo' : undefined}>
+      {MODES.map(m => (
+          <button key={m.mode} onClick={() => onChange(m.mode)} disabled={locked && m.mode !== mode} title={m.title}
+              className={`px-1.5 rounded text-[8px] font-bold tracking-wider disabled:opacity-40 ${mode === m.mode ? 'bg-cnc-accent text-black' : 'bg-zinc-800 text-zinc-500 hover:text-white'}`}>{m.label}</button>
+      ))}
+  </div>
+);
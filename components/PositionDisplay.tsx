@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { SimulationState } from '../types';
+import { DroMode } from '../services/workCoordinates';
+
+interface PositionDisplayProps {
+  state: SimulationState;
+  home: { x: number; z: number }; // Machine reference point, in scene coordinates
+}
+
+const MODES: { mode: DroMode; label: string; title: string }[] = [
+  { mode: 'ABSOLUTE', label: 'ABS', title: 'Absolutas: cotas de pieza en el origen activo (G54–G59), con el corrector de la herramienta' },
+  { mode: 'RELATIVE', label: 'REL', title: 'Relativas: desde el origen puesto por el operador (pulse X o Z para ponerlo a cero)' },
+  { mode: 'MACHINE', label: 'MÁQ', title: 'Máquina: desde el punto de referencia (Home)' },
+  { mode: 'TO_GO', label: 'RESTO', title: 'Distancia por recorrer hasta el final del bloque' }
+];
+
+/** DRO: the tool position as absolute, relative, machine or distance-to-go coordinates */
+export const PositionDisplay: React.FC<PositionDisplayProps> = ({ state, home }) => {
+  const [mode, setMode] = useState<DroMode>('ABSOLUTE');
+  // Machine coordinates, from home: the origin stays on the machine when the reference point is moved
+  const [relativeZero, setRelativeZero] = useState({ x: 0, z: 0 });
+
+  const zero = mode === 'ABSOLUTE'
+    ? { x: state.workOrigin.x + state.toolOffset.x, z: state.workOrigin.z + state.toolOffset.z }
+    : mode === 'RELATIVE' ? { x: home.x + relativeZero.x, z: home.z + relativeZero.z } : home;
+  const shown = mode === 'TO_GO'
+    ? state.distanceToGo ?? { x: 0, z: 0 }
+    : { x: state.x - zero.x, z: state.z - zero.z };
+
+  // Fanuc REL page: an axis is set to zero where the tool is
+  const originAxis = (axis: 'x' | 'z') => {
+    if (mode === 'RELATIVE') setRelativeZero(prev => ({ ...prev, [axis]: state[axis] - home[axis] }));
+  };
+
+  const axisRow = (axis: 'x' | 'z') => (
+      <div className="flex items-center gap-2">
+          <button onClick={() => originAxis(axis)} disabled={mode !== 'RELATIVE'} className={`font-bold text-xs w-3 ${mode === 'RELATIVE' ? 'text-cyan-400 hover:text-white' : 'text-cnc-accent'}`} title={mode === 'RELATIVE' ? `Origen ${axis.toUpperCase()}: poner a cero` : undefined}>{axis.toUpperCase()}</button>
+          <span className="text-zinc-100 text-sm tracking-widest bg-zinc-900/50 px-1 rounded min-w-[70px] text-right">{shown[axis].toFixed(3)}</span>
+      </div>
+  );
+
+  return (
+    <div className="flex items-center gap-2">
+        <div className="grid grid-cols-2 gap-0.5">
+            {MODES.map(m => (
+                <button key={m.mode} onClick={() => setMode(m.mode)} title={m.title}
+                    className={`px-1 rounded text-[8px] font-bold font-sans tracking-wider ${mode === m.mode ? 'bg-cnc-accent text-black' : 'bg-zinc-800 text-zinc-500 hover:text-white'}`}>{m.label}</button>
+            ))}
+        </div>
+        <div className="flex flex-col justify-center">{axisRow('x')}{axisRow('z')}</div>
+    </div>
+  );
+};
@@ -1,6 +1,18 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { AlertTriangle, CheckCircle2, Video, Monitor, Box, Circle, RotateCw, RotateCcw, Octagon, Sliders, Sparkles } from 'lucide-react';
-import { GCodeCommand, SimulationState, MachineState, ToolConfig, MaterialType } from '../types';
+import { AlertTriangle, CheckCircle2, Loader2, Video, Monitor, Box, Circle, RotateCw, RotateCcw, Octagon, Sliders, Sparkles } from 'lucide-react';
+import { GCodeCommand, SimulationState, MachineState, ToolConfig, MaterialType, PathSegment, SourceLine, ThreadData, StockProfile, ToolOffsets, WorkOffsets, ManualPosition } from '../types';
+import { sampleArc } from '../services/arcInterpolation';
+import { DEFAULT_MODAL_STATE } from '../services/gcodeParser';
+import { STOCK_LENGTH, createStock, cutStock, stockRadiusAt } from '../services/stockModel';
+import { checkSegment, COLLISION_DESCRIPTIONS } from '../services/collisionDetection';
+import { DEFAULT_RAPID_RATE, MotionPoint, endPoint, pointAlong, segmentDuration } from '../services/motionPlanner';
+import { sameToolGeometry } from '../services/programInterpreter';
+import { InterpreterConnection, InterpreterResponse, connectInterpreter } from '../services/interpreterProtocol';
+import { spindleAt, wearIncrement } from '../services/simulationKernel';
+import { SoftLimits } from '../services/operatingModes';
+import { offsetShift, parseToolCode } from '../services/toolOffsets';
+import { ToolSetter } from '../services/toolSetup';
+import { workOrigin } from '../services/workCoordinates';
 
 interface SimulatorProps {
   commands: GCodeCommand[];
@@ -13,11 +25,24 @@ interface SimulatorProps {
   showPaths: boolean; 
   showTrace: boolean;
   homePosition: { x: number; z: number };
+  workOffsets: WorkOffsets; // G54–G59, measured from the home position
+  toolOffsets: ToolOffsets; // Offset page applied by Txxyy
+  manualPosition?: ManualPosition | null; // Tool moved by hand in the manual modes; home otherwise
+  mdi?: boolean; // The commands are MDI blocks, run from the manual position when the cycle starts
+  softLimits?: SoftLimits; // Stroke of the tool tip; a program going past it raises an overtravel alarm
+  toolSetter?: ToolSetter | null; // Setter stylus, when its arm is swung in
+  stockDiameter?: number;
+  rapidRate?: number; // G00 traverse rate (mm/min)
   onError: (msg: string) => void;
   onStateChange?: (state: SimulationState) => void;
   onRequestPause?: () => void;
   onRequestResume?: () => void;
   onToolWear: (toolId: number, wear: number) => void;
+  onBlockComplete?: (next: number) => void; // The current block finished its motion and dwell; `next` is the command to run after it
+  highlightLine?: SourceLine | null; // Source line whose segments are drawn highlighted
+  onSelectLine?: (line: number, program?: number) => void; // A toolpath segment was clicked
+  // Where an MDI run or a rejected manual move left the tool; an MDI program that ended also leaves the spindle set
+  onManualPosition?: (position: ManualPosition, spindle?: { dir: 'CW' | 'CCW' | 'STOP'; speed: number }) => void;
 }
 
 interface Particle {
@@ -29,11 +54,25 @@ interface Particle {
   color: string;
 }
 
+// Progress of the tool through the segments of the block being executed
+interface MotionState {
+  commands: GCodeCommand[] | null; // Program and step the motion belongs to, to keep
+  step: number;                    // progress when the interpreter re-runs (pause, wear)
+  next: number; // Command run after the block
+  path: PathSegment[]; // Full path up to this block
+  segment: number; // Path index being travelled
+  elapsed: number; // Seconds spent on that segment
+  dwell: number; // G04 seconds left once the motion ends
+  position: MotionPoint;
+  stock: StockProfile; // Stock cut up to the live position
+  done: boolean;
+  hold: boolean; // Waiting for the operator to confirm a tool change
+}
+
 const STOCK_DIAMETER = 100; // Increased to 100mm as requested
-const STOCK_LENGTH = 150; // mm
 const SCALE = 3; // Pixels per mm
-
-const VALID_G_CODES = [0, 1, 2, 3, 4, 20, 21, 28, 32, 33, 40, 41, 42, 43, 44, 49, 50, 70, 71, 72, 73, 74, 75, 76, 90, 91, 96, 97, 98, 99];
+const DRO_REFRESH_MS = 50; // Live position updates sent to the DRO while moving
+const PICK_TOLERANCE = 6; // Canvas pixels around a toolpath segment that select it
 
 export const Simulator: React.FC<SimulatorProps> = ({ 
   commands, 
@@ -46,11 +85,23 @@ export const Simulator: React.FC<SimulatorProps> = ({
   showPaths,
   showTrace,
   homePosition,
+  workOffsets,
+  toolOffsets,
+  manualPosition = null,
+  mdi = false,
+  softLimits,
+  toolSetter = null,
+  stockDiameter = STOCK_DIAMETER,
+  rapidRate = DEFAULT_RAPID_RATE,
   onError, 
   onStateChange,
   onRequestPause,
   onRequestResume,
-  onToolWear
+  onToolWear,
+  onBlockComplete,
+  highlightLine,
+  onSelectLine,
+  onManualPosition
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
@@ -77,21 +128,56 @@ export const Simulator: React.FC<SimulatorProps> = ({
   // Tool Change Prompt State
   const [pendingToolChange, setPendingToolChange] = useState<GCodeCommand | null>(null);
   const lastHandledToolLine = useRef<number>(-1);
+  // Interpreter running in a worker: program loaded into it, block awaited, path received so far
+  const interpreterRef = useRef<InterpreterConnection | null>(null);
+  const loadedRef = useRef<{
+    program: number; commands: GCodeCommand[]; tools: ToolConfig[]; homeX: number; homeZ: number; workOffsets: WorkOffsets; toolOffsets: ToolOffsets; stockDiameter: number;
+    start: ManualPosition | null; limits?: SoftLimits;
+  } | null>(null);
+  const pendingRef = useRef<{ id: number; line: number; hold: boolean } | null>(null);
+  const requestIdRef = useRef(0);
+  const blockRef = useRef({ step: -1, next: 0 }); // Block in motion, in execution order
+  const pathRef = useRef<PathSegment[]>([]);
+  const responseRef = useRef<(response: InterpreterResponse) => void>(() => {});
+  const [loadProgress, setLoadProgress] = useState<{ done: number; total: number } | null>(null);
 
   // State for the simulation
   const [simState, setSimState] = useState<SimulationState>({
     x: homePosition.x,
     z: homePosition.z,
+    workOrigin: workOrigin(homePosition, workOffsets, DEFAULT_MODAL_STATE.coordinateSystem),
     feedRate: 0,
     spindleSpeed: 0,
+    spindleMode: 'RPM',
+    programmedSpeed: 0,
+    spindleClamped: false,
     spindleDirection: 'STOP',
     tool: 1,
-    activeToolOffset: 0,
+    offsetNumber: 0,
+    toolOffset: { x: 0, z: 0 },
     toolRadiusComp: 'OFF',
     positioningMode: 'ABS',
     coolant: 'OFF',
-    path: []
+    modal: DEFAULT_MODAL_STATE,
+    path: [],
+    threads: [],
+    variables: {}
+  });
+
+  // Live motion: the interpreter lays out the block, the render loop moves the tool along it
+  const homePoint: MotionPoint = { x: homePosition.x, z: homePosition.z, cx: homePosition.x, cz: homePosition.z };
+  // Where the loaded program's path starts: home, or the tool's place when MDI blocks were laid out
+  const startPoint = (): MotionPoint => {
+    const start = loadedRef.current?.start;
+    return start ? { x: start.x, z: start.z, cx: start.x, cz: start.z } : homePoint;
+  };
+  const motionRef = useRef<MotionState>({
+    commands: null, step: -1, next: 0, path: [], segment: 0, elapsed: 0, dwell: 0, position: homePoint,
+    stock: createStock(stockDiameter, STOCK_LENGTH), done: true, hold: false
   });
+  const droRef = useRef({ time: 0, x: homePosition.x, z: homePosition.z }); // Last position sent to the DRO
+  // Spindle speed at the live X, for the spindle panel (G96 changes it while moving)
+  const [liveSpindle, setLiveSpindle] = useState({ spindleSpeed: 0, spindleClamped: false });
 
   // Previous position ref to detect movement for sparks and wear calculation
   const prevPosRef = useRef({ x: homePosition.x, z: homePosition.z });
@@ -147,20 +233,94 @@ export const Simulator: React.FC<SimulatorProps> = ({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  // Interpreter worker, alive as long as the simulator
+  useEffect(() => {
+    const interpreter = connectInterpreter(response => responseRef.current(response));
+    interpreterRef.current = interpreter;
+    return () => {
+        interpreter.close();
+        interpreterRef.current = null;
+        loadedRef.current = null;
+    };
+  }, []);
+
+  // The worker lays the program out again only when it or the machine changes; wear updates keep it.
+  // MDI blocks are laid out when the cycle starts, from the tool and stock as the operator left them.
+  useEffect(() => {
+    const interpreter = interpreterRef.current;
+    const loaded = loadedRef.current;
+    if (!interpreter || !commands || commands.length === 0) return;
+    if (mdi && machineState !== MachineState.RUNNING) return;
+    const { x: homeX, z: homeZ } = homePosition;
+    const start = mdi ? manualPosition : null;
+    if (loaded && loaded.commands === commands && loaded.homeX === homeX && loaded.homeZ === homeZ && loaded.workOffsets === workOffsets &&
+        loaded.toolOffsets === toolOffsets && loaded.stockDiameter === stockDiameter && loaded.start === start && loaded.limits === softLimits &&
+        sameToolGeometry(loaded.tools, tools)) return;
+    const program = (loaded ? loaded.program : 0) + 1;
+    loadedRef.current = { program, commands, tools, homeX, homeZ, workOffsets, toolOffsets, stockDiameter, start, limits: softLimits };
+    pendingRef.current = null;
+    blockRef.current = { step: -1, next: 0 };
+    pathRef.current = [];
+    const manual = start ? { start, spindle: manualSpindle, stock: motionRef.current.stock } : {};
+    interpreter.post({ type: 'load', program, commands, config: { tools, home: { x: homeX, z: homeZ }, workOffsets, toolOffsets, stockDiameter, stockLength: STOCK_LENGTH, limits: softLimits, ...manual } });
+  }, [commands, tools, homePosition, workOffsets, toolOffsets, stockDiameter, mdi, machineState, manualPosition, manualSpindle, softLimits]);
+
   // 1. Interpreter Engine
   useEffect(() => {
-    if (machineState === MachineState.ALARM) return;
+    if (machineState === MachineState.ALARM) {
+        pendingRef.current = null;
+        return;
+    }
 
     if (machineState === MachineState.IDLE) {
+        // The manual modes keep the stock the tool cuts; otherwise the bar is new and the tool at home
+        const motion = motionRef.current;
+        const keep = manualPosition !== null && motion.stock.diameter === stockDiameter;
+        let stock = keep ? motion.stock : createStock(stockDiameter, STOCK_LENGTH);
+        let position = keep ? motion.position : homePoint;
+        let tool = manualPosition ? manualPosition.tool : 1;
+        let offsetNumber = manualPosition ? manualPosition.offset : 0;
+        let spindle = manualSpindle;
+        if (keep && motion.commands !== null) {
+            // An MDI run ended or was reset: the tool stays where it stopped, with the tool and offset it called
+            tool = simState.tool;
+            offsetNumber = simState.offsetNumber;
+            const ended = motion.done && motion.next >= motion.commands.length;
+            if (ended) spindle = { dir: simState.spindleDirection, speed: Math.round(spindleAt(simState, position.x).spindleSpeed) };
+            if (onManualPosition) onManualPosition({ x: position.x, z: position.z, tool, offset: offsetNumber }, ended ? spindle : undefined);
+        } else if (manualPosition && (manualPosition.x !== position.x || manualPosition.z !== position.z)) {
+            // A jog cuts with the spindle running; with it stopped, touching the bar is fine but entering it is a crash
+            const move: PathSegment = { x: manualPosition.x, z: manualPosition.z, type: manualSpindle.dir !== 'STOP' ? 'cut' : 'rapid', tool: manualPosition.tool };
+            const from = { x: position.x, z: position.z };
+            const after = move.type === 'cut' ? cutStock(stock, [move], tools, from) : stock;
+            const hit = checkSegment(from, move, tools.find(t => t.id === manualPosition.tool), stock, after);
+            if (hit) {
+                onError(`ALARMA COLISIÓN: ${COLLISION_DESCRIPTIONS[hit.body]} en movimiento manual (X${hit.x.toFixed(3)} Z${hit.z.toFixed(3)})`);
+                if (onManualPosition) onManualPosition({ ...manualPosition, ...from });
+            } else {
+                stock = after;
+                position = { x: move.x, z: move.z, cx: move.x, cz: move.z };
+            }
+        }
         const idleState: SimulationState = {
-            x: homePosition.x, z: homePosition.z, feedRate: 0, 
-            spindleSpeed: manualSpindle.dir !== 'STOP' ? manualSpindle.speed : 0, 
-            spindleDirection: manualSpindle.dir,
-            tool: 1, activeToolOffset: 0, toolRadiusComp: 'OFF', positioningMode: 'ABS', coolant: 'OFF', path: []
+            x: position.x, z: position.z, workOrigin: workOrigin(homePosition, workOffsets, DEFAULT_MODAL_STATE.coordinateSystem), feedRate: 0,
+            spindleSpeed: spindle.dir !== 'STOP' ? spindle.speed : 0, 
+            spindleMode: 'RPM', programmedSpeed: spindle.speed, spindleClamped: false,
+            spindleDirection: spindle.dir,
+            tool, offsetNumber, toolOffset: manualPosition ? offsetShift(toolOffsets[offsetNumber], tools.find(t => t.id === tool)) : { x: 0, z: 0 },
+            toolRadiusComp: 'OFF', positioningMode: 'ABS', coolant: 'OFF',
+            modal: DEFAULT_MODAL_STATE, path: [], threads: [], variables: {}
         };
         setSimState(idleState);
+        setLiveSpindle({ spindleSpeed: idleState.spindleSpeed, spindleClamped: false });
+        motionRef.current = {
+            commands: null, step: -1, next: 0, path: [], segment: 0, elapsed: 0, dwell: 0, position,
+            stock, done: true, hold: false
+        };
         if (onStateChange) onStateChange(idleState);
-        prevPosRef.current = { x: homePosition.x, z: homePosition.z };
+        prevPosRef.current = { x: position.x, z: position.z };
+        pendingRef.current = null;
+        blockRef.current = { step: -1, next: 0 };
         return;
     }
 
@@ -168,12 +328,14 @@ export const Simulator: React.FC<SimulatorProps> = ({
 
     // Check for Tool Change Request at current line
     const activeCmd = commands[currentLine];
+    let toolChangeHold = false;
     if (activeCmd && activeCmd.type === 'T' && machineState === MachineState.RUNNING) {
         // Only trigger if we haven't handled this line yet
         if (lastHandledToolLine.current !== currentLine) {
             if (onRequestPause) onRequestPause();
             setPendingToolChange(activeCmd);
             lastHandledToolLine.current = currentLine;
+            toolChangeHold = true;
         }
     }
 
@@ -182,145 +344,115 @@ export const Simulator: React.FC<SimulatorProps> = ({
         onToolWear(simState.tool, 0);
     }
 
-    let tempX = homePosition.x;
-    let tempZ = homePosition.z;
-    let tempS = 0;
-    let tempTool = 1;
-    let tempSpindleDir: 'CW' | 'CCW' | 'STOP' = 'STOP';
-    let tempOffset = 0;
-    let tempRadiusComp: 'OFF' | 'LEFT' | 'RIGHT' = 'OFF';
-    let tempPositioning: 'ABS' | 'INC' = 'ABS';
-    let tempCoolant: 'OFF' | 'MIST' | 'FLOOD' = 'OFF';
-    const newPath: { x: number; z: number; cx?: number; cz?: number; type: 'cut' | 'rapid' }[] = [];
-
-    // Run interpreter
-    for (let i = 0; i <= currentLine && i < commands.length; i++) {
-        const cmd = commands[i];
-        
-        // Basic Validation
-        if (cmd.type === 'G' && cmd.code !== undefined && !VALID_G_CODES.includes(cmd.code)) {
-            onError(`Error Sintaxis: G${cmd.code} no soportado en línea ${cmd.line}`);
-            return;
-        }
-
-        if (cmd.type === 'G') {
-            if (cmd.code === 90) tempPositioning = 'ABS';
-            else if (cmd.code === 91) tempPositioning = 'INC';
-            if (cmd.code === 43 && cmd.params.H !== undefined) {
-                const tool = tools.find(t => t.id === cmd.params.H);
-                if (tool) tempOffset = tool.lengthOffset;
-            } else if (cmd.code === 49) tempOffset = 0;
-            if (cmd.code === 40) tempRadiusComp = 'OFF';
-            else if (cmd.code === 41) tempRadiusComp = 'LEFT';
-            else if (cmd.code === 42) tempRadiusComp = 'RIGHT';
-        }
+    // Ask the worker for the block as reached from the one in motion: the next step when
+    // the program advances, an earlier run of it when stepping back.
+    // A tool change hold survives the re-request made when the prompt pauses the machine.
+    const interpreter = interpreterRef.current;
+    if (!interpreter) return;
+    const pending = pendingRef.current;
+    const id = ++requestIdRef.current;
+    pendingRef.current = { id, line: currentLine, hold: toolChangeHold || (!!pending && pending.line === currentLine && pending.hold) };
+    interpreter.post({ type: 'seek', id, index: currentLine, from: blockRef.current.step });
+  }, [commands, currentLine, machineState, onError, onStateChange, onRequestPause, manualSpindle, tools, homePosition, workOffsets, toolOffsets, manualPosition, stockDiameter, onManualPosition]);
 
-        if (cmd.params.X !== undefined) tempX = tempPositioning === 'ABS' ? cmd.params.X : tempX + cmd.params.X;
-        if (cmd.params.U !== undefined) tempX += cmd.params.U;
-        if (cmd.params.Z !== undefined) tempZ = tempPositioning === 'ABS' ? cmd.params.Z : tempZ + cmd.params.Z;
-        if (cmd.params.W !== undefined) tempZ += cmd.params.W;
-        
-        if (cmd.params.S !== undefined && !(cmd.type === 'G' && cmd.code === 50)) {
-            tempS = cmd.params.S;
-        }
+  // Worker responses: progress while loading, then the blocks asked for
+  responseRef.current = (response: InterpreterResponse) => {
+    if (response.type === 'error') {
+        setLoadProgress(null);
+        pendingRef.current = null;
+        onError(response.message);
+        return;
+    }
+    if (response.type === 'estimate') return;
+    const loaded = loadedRef.current;
+    if (!loaded || response.program !== loaded.program) return;
+    if (response.type === 'progress') {
+        setLoadProgress({ done: response.done, total: response.total });
+        return;
+    }
+    if (response.type === 'ready') {
+        setLoadProgress(null);
+        return;
+    }
+    // Every block keeps the received path in step with the worker, even when no longer awaited
+    if (response.type === 'block') {
+        const path = response.pathStart === pathRef.current.length ? pathRef.current : pathRef.current.slice(0, response.pathStart);
+        path.push(...response.segments);
+        pathRef.current = path;
+    }
+    const pending = pendingRef.current;
+    if (!pending || response.id !== pending.id) return;
+    pendingRef.current = null;
+    if (response.type === 'alarm') {
+        onError(response.message);
+        return;
+    }
 
-        if (cmd.type === 'T' && cmd.code) {
-             const toolIdStr = cmd.code.toString();
-             let id = parseInt(toolIdStr);
-             if (toolIdStr.length >= 2) id = parseInt(toolIdStr.substring(0, 2)); 
-             if (id > 0) tempTool = id;
-        }
+    const { step, next, blockStart, blockStock, dwell } = response;
+    blockRef.current = { step, next };
+    const newPath = pathRef.current;
+    const newState: SimulationState = { ...response.state, path: newPath };
+    Object.assign(newState, spindleAt(newState, newState.x));
 
-        if (cmd.type === 'M') {
-            if (cmd.code === 3) tempSpindleDir = 'CW';
-            else if (cmd.code === 4) tempSpindleDir = 'CCW';
-            else if (cmd.code === 5) tempSpindleDir = 'STOP';
-            else if (cmd.code === 7) tempCoolant = 'MIST';
-            else if (cmd.code === 8) tempCoolant = 'FLOOD';
-            else if (cmd.code === 9) tempCoolant = 'OFF';
-        }
+    // A new block starts moving from the end of the previous one; the same block
+    // (re-run after a pause or a wear update) keeps its progress
+    const motion = motionRef.current;
+    if (motion.commands !== loaded.commands || motion.step !== step) {
+        motionRef.current = {
+            commands: loaded.commands, step, next, path: newPath, segment: blockStart, elapsed: 0, dwell,
+            position: blockStart > 0 ? endPoint(newPath[blockStart - 1]) : startPoint(),
+            stock: blockStock, done: false, hold: pending.hold
+        };
+    } else {
+        motion.path = newPath;
+    }
 
-        let type: 'cut' | 'rapid' = 'rapid';
-        if (cmd.type === 'G' && (cmd.code === 1 || cmd.code === 2 || cmd.code === 3 || cmd.code === 32 || cmd.code === 33 || cmd.code === 71 || cmd.code === 72 || cmd.code === 74 || cmd.code === 75 || cmd.code === 76)) {
-            type = 'cut';
-        }
+    setSimState(newState);
+    const live = motionRef.current.position;
+    const spindle = spindleAt(newState, live.x);
+    setLiveSpindle(spindle);
+    if (onStateChange) onStateChange({ ...newState, x: live.x, z: live.z, distanceToGo: { x: newState.x - live.x, z: newState.z - live.z }, ...spindle });
+  };
 
-        // --- LÓGICA DE G28 (HOME RETURN) ---
-        if (cmd.type === 'G' && cmd.code === 28) {
-             // 1. Primero registramos el movimiento al punto intermedio (si se especificó en la línea)
-             newPath.push({ x: tempX, z: tempZ, cx: tempX, cz: tempZ, type: 'rapid' });
-             
-             // 2. Determinar qué ejes vuelven a Home (X/U para X, Z/W para Z)
-             // En un torno Fanuc, si se especifica G28 U0, solo vuelve el eje X.
-             const isSelective = (cmd.params.X !== undefined || cmd.params.U !== undefined || 
-                                 cmd.params.Z !== undefined || cmd.params.W !== undefined);
-
-             if (isSelective) {
-                 if (cmd.params.X !== undefined || cmd.params.U !== undefined) tempX = homePosition.x;
-                 if (cmd.params.Z !== undefined || cmd.params.W !== undefined) tempZ = homePosition.z;
-             } else {
-                 // Si no hay parámetros, ambos ejes vuelven a Home por defecto
-                 tempX = homePosition.x;
-                 tempZ = homePosition.z;
-             }
-
-             // 3. Registramos el movimiento final al Home
-             newPath.push({ x: tempX, z: tempZ, cx: tempX, cz: tempZ, type: 'rapid' });
-             continue; 
+  // Moves the tool along the block's segments for dt seconds of machine time
+  const advanceMotion = (dt: number) => {
+    const m = motionRef.current;
+    const path = m.path;
+    let budget = dt;
+    while (budget > 0 && m.segment < path.length) {
+        const seg = path[m.segment];
+        const from = m.segment > 0 ? endPoint(path[m.segment - 1]) : startPoint();
+        const duration = segmentDuration(from, seg, rapidRate, feedOverride);
+        const t = duration > 0 ? Math.min(1, (m.elapsed + budget) / duration) : 1;
+        const next = pointAlong(from, seg, t);
+        m.stock = cutStock(m.stock, [{ ...seg, ...next }], tools, { x: m.position.cx, z: m.position.cz });
+        m.position = next;
+        if (t < 1) {
+            m.elapsed += budget;
+            budget = 0;
+        } else {
+            budget -= Math.max(0, duration - m.elapsed);
+            m.segment++;
+            m.elapsed = 0;
         }
-
-        if (cmd.type === 'G' && [0,1,2,3,32,33].includes(cmd.code || -1)) {
-             // Lógica de Compensación de Radio G41/G42
-             let cx = tempX; 
-             let cz = tempZ;
-
-             if (tempRadiusComp !== 'OFF' && type === 'cut') {
-                const activeTool = tools.find(t => t.id === tempTool);
-                const noseR = activeTool ? activeTool.noseRadius : 0;
-                
-                if (noseR > 0) {
-                    let prevX = homePosition.x;
-                    let prevZ = homePosition.z;
-                    if (newPath.length > 0) {
-                        prevX = newPath[newPath.length - 1].x;
-                        prevZ = newPath[newPath.length - 1].z;
-                    }
-                    
-                    const dz = tempZ - prevZ;
-                    const dx = (tempX - prevX) / 2;
-                    const len = Math.sqrt(dz * dz + dx * dx);
-                    
-                    if (len > 0.001) {
-                        const tx = dx / len;
-                        const tz = dz / len;
-                        let nx = 0; let nz = 0;
-
-                        if (tempRadiusComp === 'RIGHT') { // G42
-                            nz = -tx; nx = tz;
-                        } else { // G41
-                            nz = tx; nx = -tz;
-                        }
-                        
-                        cz = tempZ + (nz * noseR);
-                        cx = tempX + (nx * noseR * 2);
-                    }
-                }
-             }
-
-             newPath.push({ x: tempX, z: tempZ, cx, cz, type });
+    }
+    if (m.segment >= path.length && budget > 0) {
+        m.dwell -= budget;
+        if (m.dwell <= 0) {
+            m.done = true;
+            if (onBlockComplete) onBlockComplete(m.next);
         }
     }
+  };
 
-    const newState: SimulationState = { 
-        x: tempX, z: tempZ, spindleSpeed: tempS, spindleDirection: tempSpindleDir,
-        activeToolOffset: tempOffset, toolRadiusComp: tempRadiusComp, positioningMode: tempPositioning,
-        path: newPath, tool: tempTool, feedRate: 0, coolant: tempCoolant
-    };
-
-    setSimState(newState);
-    if (onStateChange) onStateChange(newState);
-
-  }, [commands, currentLine, machineState, onError, onStateChange, onRequestPause, manualSpindle, tools, homePosition]);
+  // Path up to the live tool position, with the segment in progress cut short
+  const visiblePath = (): PathSegment[] => {
+    const m = motionRef.current;
+    if (m.segment >= m.path.length) return m.path;
+    const travelled = m.path.slice(0, m.segment);
+    if (m.elapsed > 0) travelled.push({ ...m.path[m.segment], ...m.position });
+    return travelled;
+  };
 
   // Handle Tooltip
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -344,6 +476,46 @@ export const Simulator: React.FC<SimulatorProps> = ({
   };
   const handleMouseLeave = () => setTooltip(null);
 
+  // Selects the source line of the toolpath segment under the click (side view only)
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !onSelectLine || viewMode !== 'SIDE' || !showPaths) return;
+    const rect = canvas.getBoundingClientRect();
+    const px = (e.clientX - rect.left) * (canvas.width / rect.width);
+    const py = (e.clientY - rect.top) * (canvas.height / rect.height);
+    const zZeroPixel = canvas.width - originOffset;
+    const centerY = canvas.height / 2;
+
+    // Distance from the click to the segment a–b, in canvas pixels
+    const distance = (ax: number, ay: number, bx: number, by: number) => {
+        const dx = bx - ax; const dy = by - ay;
+        const len2 = dx * dx + dy * dy;
+        const t = len2 > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / len2)) : 0;
+        return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+    };
+
+    let best = null as PathSegment | null;
+    let bestDist = PICK_TOLERANCE;
+    let last: { x: number; z: number } = startPoint();
+    visiblePath().forEach(p => {
+        // Cuts are drawn on both sides of the axis, rapids only above it
+        const sides = p.type === 'cut' ? [-1, 1] : [-1];
+        let prev = last;
+        segmentPoints(last, p).forEach(pt => {
+            sides.forEach(side => {
+                const d = distance(zZeroPixel + prev.z * SCALE, centerY + side * (prev.x / 2) * SCALE, zZeroPixel + pt.z * SCALE, centerY + side * (pt.x / 2) * SCALE);
+                if (p.line !== undefined && d < bestDist) {
+                    best = p;
+                    bestDist = d;
+                }
+            });
+            prev = pt;
+        });
+        last = { x: p.x, z: p.z };
+    });
+    if (best) onSelectLine(best.line!, best.program);
+  };
+
   // 2. Render & Physics Loop
   const animate = (time: number) => {
     const canvas = canvasRef.current;
@@ -362,13 +534,25 @@ export const Simulator: React.FC<SimulatorProps> = ({
     ctx.fillStyle = '#0f1115';
     ctx.fillRect(0, 0, width, height);
 
-    const dx = simState.x - prevPosRef.current.x;
-    const dz = simState.z - prevPosRef.current.z;
+    const motion = motionRef.current;
+    if (machineState === MachineState.RUNNING && !motion.done && !motion.hold) advanceMotion(deltaTime);
+    const live = motion.position;
+    const spindle = spindleAt(simState, live.x);
+    const dro = droRef.current;
+    if ((live.x !== dro.x || live.z !== dro.z) && (time - dro.time > DRO_REFRESH_MS || motion.done)) {
+        droRef.current = { time, x: live.x, z: live.z };
+        if (onStateChange) onStateChange({ ...simState, x: live.x, z: live.z, distanceToGo: { x: simState.x - live.x, z: simState.z - live.z }, ...spindle });
+        if (Math.round(spindle.spindleSpeed) !== Math.round(liveSpindle.spindleSpeed) || spindle.spindleClamped !== liveSpindle.spindleClamped) setLiveSpindle(spindle);
+    }
+
+    const dx = live.x - prevPosRef.current.x;
+    const dz = live.z - prevPosRef.current.z;
     const distTraveled = Math.sqrt(dx*dx + dz*dz);
     const isMoving = distTraveled > 0.001;
-    const isCutting = simState.spindleDirection !== 'STOP' && simState.path.length > 0 && simState.path[simState.path.length - 1].type === 'cut';
+    const activeSegment = motion.path[Math.min(motion.segment, motion.path.length - 1)];
+    const isCutting = simState.spindleDirection !== 'STOP' && activeSegment !== undefined && activeSegment.type === 'cut';
 
-    if (isCutting && isMoving && simState.x <= STOCK_DIAMETER + 1) {
+    if (isCutting && isMoving && live.x / 2 <= stockRadiusAt(motion.stock, live.z) + 0.5) {
         let pColor1 = '#ffaa00'; let pColor2 = '#ffff00';
         if (stockMaterial === 'Aluminum') { pColor1 = '#e2e8f0'; pColor2 = '#ffffff'; } 
         else if (stockMaterial === 'Wood') { pColor1 = '#d97706'; pColor2 = '#92400e'; }
@@ -377,8 +561,8 @@ export const Simulator: React.FC<SimulatorProps> = ({
         else if (stockMaterial === 'POM') { pColor1 = '#f8fafc'; pColor2 = '#cbd5e1'; }
 
         for(let i=0; i<particleConfig.density; i++) {
-            const rx = (simState.z * SCALE);
-            const toolXPixel = centerY - ((simState.x / 2) * SCALE);
+            const rx = (live.z * SCALE);
+            const toolXPixel = centerY - ((live.x / 2) * SCALE);
             particlesRef.current.push({
                 rx: rx, y: toolXPixel, vx: (Math.random() - 0.2) * 4, vy: (Math.random() - 0.5) * 4,
                 life: 1.0, color: Math.random() > 0.5 ? pColor1 : pColor2
@@ -386,21 +570,15 @@ export const Simulator: React.FC<SimulatorProps> = ({
         }
         
         const currentTool = tools.find(t => t.id === simState.tool);
-        let hardness = 1.0;
-        if (stockMaterial === 'Aluminum') hardness = 0.5;
-        if (stockMaterial === 'Carbon Fiber') hardness = 1.5;
-
         if (currentTool && currentTool.wear < 100) {
-            const wearRate = 0.2; 
-            const increment = distTraveled * hardness * wearRate;
-            accumWearRef.current += increment;
+            accumWearRef.current += wearIncrement(distTraveled, stockMaterial);
             if (accumWearRef.current > 0.5) {
                 onToolWear(simState.tool, currentTool.wear + accumWearRef.current);
                 accumWearRef.current = 0;
             }
         }
     }
-    prevPosRef.current = { x: simState.x, z: simState.z };
+    prevPosRef.current = { x: live.x, z: live.z };
 
     particlesRef.current.forEach(p => {
         p.rx += p.vx; p.y += p.vy; p.vy += 0.1;
@@ -408,8 +586,7 @@ export const Simulator: React.FC<SimulatorProps> = ({
     });
     particlesRef.current = particlesRef.current.filter(p => p.life > 0);
     
-    const effectiveSpindleSpeed = simState.spindleSpeed * (feedOverride / 100); 
-    const speedRadPerSec = (effectiveSpindleSpeed / 60) * 2 * Math.PI;
+    const speedRadPerSec = (spindle.spindleSpeed / 60) * 2 * Math.PI;
     if (simState.spindleDirection === 'CW') rotationRef.current += speedRadPerSec * deltaTime;
     else if (simState.spindleDirection === 'CCW') rotationRef.current -= speedRadPerSec * deltaTime;
 
@@ -428,12 +605,21 @@ export const Simulator: React.FC<SimulatorProps> = ({
     requestRef.current = requestAnimationFrame(animate);
   };
 
+  // Expands a path segment into drawable points; G02/G03 arcs are tessellated
+  const segmentPoints = (from: { x: number; z: number }, p: PathSegment): { x: number; z: number }[] => {
+    if (p.arc) return sampleArc(from, p, p.arc);
+    return [{ x: p.x, z: p.z }];
+  };
+
   const renderSideView = (ctx: CanvasRenderingContext2D, width: number, height: number, deltaTime: number) => {
     const zZeroPixel = width - originOffset;
     const centerY = height / 2;
     const stockPixelLen = STOCK_LENGTH * SCALE;
-    const stockPixelDia = STOCK_DIAMETER * SCALE;
+    const stockPixelDia = stockDiameter * SCALE;
     const chuckX = zZeroPixel - stockPixelLen;
+    const stock = motionRef.current.stock;
+    const path = visiblePath();
+    const start = startPoint();
 
     ctx.strokeStyle = '#1a1f26'; ctx.lineWidth = 1; ctx.beginPath();
     for(let i=0; i<width; i+=40) { ctx.moveTo(i,0); ctx.lineTo(i, height); }
@@ -467,8 +653,11 @@ export const Simulator: React.FC<SimulatorProps> = ({
     }
     ctx.restore();
 
-    // Stock
-    ctx.save(); ctx.beginPath(); ctx.rect(chuckX, centerY - (stockPixelDia/2), stockPixelLen, stockPixelDia); ctx.clip();
+    // Stock (remaining profile, mirrored about the spindle axis)
+    ctx.save(); ctx.beginPath();
+    stock.radii.forEach((r, i) => ctx.lineTo(zZeroPixel - i * stock.resolution * SCALE, centerY - r * SCALE));
+    for (let i = stock.radii.length - 1; i >= 0; i--) ctx.lineTo(zZeroPixel - i * stock.resolution * SCALE, centerY + stock.radii[i] * SCALE);
+    ctx.closePath(); ctx.clip();
     drawMaterialTexture(ctx, chuckX, centerY - (stockPixelDia/2), stockPixelLen, stockPixelDia, stockMaterial, 'SIDE');
     const lightGrad = ctx.createLinearGradient(0, centerY - (stockPixelDia/2), 0, centerY + (stockPixelDia/2));
     lightGrad.addColorStop(0, 'rgba(0,0,0,0.6)'); lightGrad.addColorStop(0.3, 'rgba(0,0,0,0.1)');
@@ -483,34 +672,37 @@ export const Simulator: React.FC<SimulatorProps> = ({
         }
     }
     ctx.restore();
+
+    // Thread teeth (G76)
+    simState.threads.forEach(th => drawThread(ctx, th, zZeroPixel, centerY));
     
     // Trace
-    if (showTrace && simState.path.length > 0) {
+    if (showTrace && path.length > 0) {
         ctx.lineWidth = 1; ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)'; ctx.setLineDash([]); ctx.beginPath();
-        let lastX = homePosition.x; let lastZ = homePosition.z; 
+        let lastX = start.x; let lastZ = start.z; 
         const startX = zZeroPixel + (lastZ * SCALE); const startY = centerY - ((lastX / 2) * SCALE);
         ctx.moveTo(startX, startY);
-        simState.path.forEach(p => {
-            const cx = zZeroPixel + (p.z * SCALE); const cy = centerY - ((p.x / 2) * SCALE);
-            ctx.lineTo(cx, cy);
+        path.forEach(p => {
+            segmentPoints({ x: lastX, z: lastZ }, p).forEach(pt => ctx.lineTo(zZeroPixel + (pt.z * SCALE), centerY - ((pt.x / 2) * SCALE)));
             lastX = p.x; lastZ = p.z;
         });
         ctx.stroke();
     }
 
     // Paths
-    if (showPaths && simState.path.length > 0) {
-        const hasComp = simState.path.some(p => p.cx !== undefined && p.cx !== p.x);
+    if (showPaths && path.length > 0) {
+        const hasComp = path.some(p => (p.cx !== undefined && p.cx !== p.x) || (p.cz !== undefined && p.cz !== p.z));
         if (hasComp) {
             ctx.lineWidth = 1; ctx.beginPath(); ctx.strokeStyle = '#ff00ff'; ctx.setLineDash([3, 3]);
-            let lastCX = homePosition.x; let lastCZ = homePosition.z;
-            simState.path.forEach(p => {
+            let lastCX = start.x; let lastCZ = start.z;
+            path.forEach(p => {
                 const effectiveCX = p.cx !== undefined ? p.cx : p.x;
                 const effectiveCZ = p.cz !== undefined ? p.cz : p.z;
                 if (p.type === 'cut') {
-                   const cx = zZeroPixel + (effectiveCZ * SCALE); const cy = centerY - ((effectiveCX / 2) * SCALE);
                    const lx = zZeroPixel + (lastCZ * SCALE); const ly = centerY - ((lastCX / 2) * SCALE);
-                   ctx.moveTo(lx, ly); ctx.lineTo(cx, cy);
+                   ctx.moveTo(lx, ly);
+                   segmentPoints({ x: lastCX, z: lastCZ }, { ...p, x: effectiveCX, z: effectiveCZ, arc: p.compArc ?? p.arc })
+                       .forEach(pt => ctx.lineTo(zZeroPixel + (pt.z * SCALE), centerY - ((pt.x / 2) * SCALE)));
                 }
                 lastCX = effectiveCX; lastCZ = effectiveCZ;
             });
@@ -518,8 +710,8 @@ export const Simulator: React.FC<SimulatorProps> = ({
         }
 
         ctx.lineWidth = 1.5; ctx.beginPath(); ctx.strokeStyle = 'rgba(0, 255, 255, 0.2)'; ctx.setLineDash([4, 4]);
-        let lastX = homePosition.x; let lastZ = homePosition.z;
-        simState.path.forEach(p => {
+        let lastX = start.x; let lastZ = start.z;
+        path.forEach(p => {
             if (p.type === 'rapid') {
                 const cx = zZeroPixel + (p.z * SCALE); const cy = centerY - ((p.x / 2) * SCALE);
                 const lx = zZeroPixel + (lastZ * SCALE); const ly = centerY - ((lastX / 2) * SCALE);
@@ -530,17 +722,55 @@ export const Simulator: React.FC<SimulatorProps> = ({
         ctx.stroke();
         
         ctx.beginPath(); ctx.strokeStyle = 'rgba(255, 165, 0, 0.8)'; ctx.setLineDash([]);
-        lastX = homePosition.x; lastZ = homePosition.z;
-        simState.path.forEach(p => {
-            const cx = zZeroPixel + (p.z * SCALE); const cy = centerY - ((p.x / 2) * SCALE);
-            const lx = zZeroPixel + (lastZ * SCALE); const ly = centerY - ((lastX / 2) * SCALE);
+        lastX = start.x; lastZ = start.z;
+        path.forEach(p => {
+            const lx = zZeroPixel + (lastZ * SCALE);
             if (p.type === 'cut') {
-                ctx.moveTo(lx, ly); ctx.lineTo(cx, cy);
-                ctx.moveTo(lx, centerY + ((lastX / 2) * SCALE)); ctx.lineTo(cx, centerY + ((p.x / 2) * SCALE));
+                const points = segmentPoints({ x: lastX, z: lastZ }, p);
+                ctx.moveTo(lx, centerY - ((lastX / 2) * SCALE));
+                points.forEach(pt => ctx.lineTo(zZeroPixel + (pt.z * SCALE), centerY - ((pt.x / 2) * SCALE)));
+                ctx.moveTo(lx, centerY + ((lastX / 2) * SCALE));
+                points.forEach(pt => ctx.lineTo(zZeroPixel + (pt.z * SCALE), centerY + ((pt.x / 2) * SCALE)));
             }
             lastX = p.x; lastZ = p.z;
         });
         ctx.stroke();
+
+        // Segments of the editor line under the mouse, including every pass of a cycle
+        if (highlightLine != null) {
+            ctx.lineWidth = 3; ctx.beginPath(); ctx.strokeStyle = '#facc15'; ctx.setLineDash([]);
+            lastX = start.x; lastZ = start.z;
+            motionRef.current.path.forEach(p => {
+                if (p.line === highlightLine.line && p.program === highlightLine.program) {
+                    const points = segmentPoints({ x: lastX, z: lastZ }, p);
+                    (p.type === 'cut' ? [-1, 1] : [-1]).forEach(side => {
+                        ctx.moveTo(zZeroPixel + (lastZ * SCALE), centerY + side * ((lastX / 2) * SCALE));
+                        points.forEach(pt => ctx.lineTo(zZeroPixel + (pt.z * SCALE), centerY + side * ((pt.x / 2) * SCALE)));
+                    });
+                }
+                lastX = p.x; lastZ = p.z;
+            });
+            ctx.stroke();
+        }
+    }
+
+    // Part zero of the active work coordinate system
+    const zeroZ = zZeroPixel + simState.workOrigin.z * SCALE; const zeroY = centerY - (simState.workOrigin.x / 2) * SCALE;
+    ctx.strokeStyle = '#22d3ee'; ctx.fillStyle = '#22d3ee'; ctx.lineWidth = 1; ctx.setLineDash([]);
+    ctx.beginPath(); ctx.arc(zeroZ, zeroY, 6, 0, Math.PI * 2);
+    ctx.moveTo(zeroZ - 10, zeroY); ctx.lineTo(zeroZ + 10, zeroY); ctx.moveTo(zeroZ, zeroY - 10); ctx.lineTo(zeroZ, zeroY + 10); ctx.stroke();
+    ctx.beginPath(); ctx.moveTo(zeroZ, zeroY); ctx.arc(zeroZ, zeroY, 6, -Math.PI / 2, 0); ctx.closePath();
+    ctx.moveTo(zeroZ, zeroY); ctx.arc(zeroZ, zeroY, 6, Math.PI / 2, Math.PI); ctx.closePath(); ctx.fill();
+    ctx.font = '10px monospace'; ctx.fillText(`G${simState.modal.coordinateSystem}`, zeroZ + 8, zeroY - 8);
+
+    // Tool setter: the stylus on its arm, swung in from below
+    if (toolSetter) {
+        const left = zZeroPixel + toolSetter.back * SCALE; const right = zZeroPixel + toolSetter.front * SCALE;
+        const top = centerY - (toolSetter.top / 2) * SCALE; const bottom = centerY - (toolSetter.bottom / 2) * SCALE;
+        ctx.fillStyle = '#52525b'; ctx.fillRect((left + right) / 2 - 3, bottom, 6, height - bottom);
+        ctx.fillStyle = '#3f3f46'; ctx.strokeStyle = '#a3e635'; ctx.lineWidth = 1.5;
+        ctx.fillRect(left, top, right - left, bottom - top); ctx.strokeRect(left, top, right - left, bottom - top);
+        ctx.fillStyle = '#a3e635'; ctx.font = '10px monospace'; ctx.fillText('PALPADOR', right + 6, top + 10);
     }
 
     particlesRef.current.forEach(p => {
@@ -550,9 +780,8 @@ export const Simulator: React.FC<SimulatorProps> = ({
         ctx.globalAlpha = 1.0;
     });
 
-    const currentPoint = simState.path.length > 0 ? simState.path[simState.path.length - 1] : { x: simState.x, z: simState.z, cx: simState.x, cz: simState.z };
-    const displayX = currentPoint.cx !== undefined ? currentPoint.cx : simState.x;
-    const displayZ = currentPoint.cz !== undefined ? currentPoint.cz : simState.z;
+    const displayX = motionRef.current.position.cx;
+    const displayZ = motionRef.current.position.cz;
     const toolZPixel = zZeroPixel + (displayZ * SCALE); const toolXPixel = centerY - ((displayX / 2) * SCALE);
     const transform = ctx.getTransform(); const screenPt = transform.transformPoint(new DOMPoint(toolZPixel, toolXPixel));
     toolScreenPosRef.current = { x: screenPt.x, y: screenPt.y };
@@ -560,8 +789,32 @@ export const Simulator: React.FC<SimulatorProps> = ({
     if (simState.coolant === 'FLOOD') { ctx.fillStyle = 'rgba(0, 100, 255, 0.15)'; ctx.fillRect(0, 0, width, height); }
   };
 
+  // Draws the V grooves of a thread over the stock, clipped to the part length
+  const drawThread = (ctx: CanvasRenderingContext2D, th: ThreadData, zZeroPixel: number, centerY: number) => {
+      const zFrom = Math.min(0, Math.max(th.zStart, th.zEnd));
+      const zTo = Math.max(-STOCK_LENGTH, Math.min(th.zStart, th.zEnd));
+      if (zFrom <= zTo || th.lead <= 0) return;
+      const majorR = (th.majorDiameter / 2) * SCALE;
+      const minorR = (th.minorDiameter / 2) * SCALE;
+      ctx.save();
+      ctx.fillStyle = '#0f1115'; ctx.strokeStyle = 'rgba(255,255,255,0.35)'; ctx.lineWidth = 1;
+      [-1, 1].forEach(side => {
+          ctx.beginPath();
+          ctx.moveTo(zZeroPixel + zFrom * SCALE, centerY + side * majorR);
+          for (let z = zFrom; z > zTo; z -= th.lead) {
+              const root = Math.max(zTo, z - th.lead / 2); const next = Math.max(zTo, z - th.lead);
+              ctx.lineTo(zZeroPixel + root * SCALE, centerY + side * minorR);
+              ctx.lineTo(zZeroPixel + next * SCALE, centerY + side * majorR);
+          }
+          ctx.lineTo(zZeroPixel + zFrom * SCALE, centerY + side * majorR);
+          ctx.fill(); ctx.stroke();
+      });
+      ctx.restore();
+  };
+
   const renderFrontView = (ctx: CanvasRenderingContext2D, width: number, height: number, deltaTime: number) => {
-      const cx = width / 2; const cy = height / 2; const stockRadius = (STOCK_DIAMETER / 2) * SCALE;
+      const cx = width / 2; const cy = height / 2; const stockRadius = (stockDiameter / 2) * SCALE;
+      const stock = motionRef.current.stock;
       ctx.strokeStyle = '#1a1f26'; ctx.lineWidth = 1; ctx.beginPath();
       ctx.arc(cx, cy, stockRadius, 0, Math.PI*2); ctx.arc(cx, cy, stockRadius + 50, 0, Math.PI*2);
       ctx.moveTo(cx - 200, cy); ctx.lineTo(cx + 200, cy); ctx.moveTo(cx, cy - 200); ctx.lineTo(cx, cy + 200); ctx.stroke();
@@ -574,17 +827,25 @@ export const Simulator: React.FC<SimulatorProps> = ({
         ctx.save(); ctx.translate(cx, cy); ctx.rotate(angle); ctx.fillStyle = '#27272a'; ctx.fillRect(stockRadius + 5, -10, 25, 20);
         ctx.fillStyle = '#18181b'; ctx.beginPath(); ctx.arc(chuckRad - 15, 0, 4, 0, Math.PI*2); ctx.fill(); ctx.restore();
       }
-      ctx.save(); ctx.beginPath(); ctx.arc(cx, cy, stockRadius, 0, Math.PI*2); ctx.clip();
-      drawMaterialTexture(ctx, cx - stockRadius, cy - stockRadius, stockRadius*2, stockRadius*2, stockMaterial, 'FACE');
-      const radShadow = ctx.createRadialGradient(cx, cy, stockRadius * 0.7, cx, cy, stockRadius);
+      // Silhouette is the largest remaining diameter; each shoulder shows as a ring
+      const partRadius = Math.max(...stock.radii) * SCALE;
+      ctx.save(); ctx.beginPath(); ctx.arc(cx, cy, partRadius, 0, Math.PI*2); ctx.clip();
+      drawMaterialTexture(ctx, cx - partRadius, cy - partRadius, partRadius*2, partRadius*2, stockMaterial, 'FACE');
+      const radShadow = ctx.createRadialGradient(cx, cy, partRadius * 0.7, cx, cy, partRadius);
       radShadow.addColorStop(0, 'rgba(0,0,0,0)'); radShadow.addColorStop(1, 'rgba(0,0,0,0.5)');
       ctx.fillStyle = radShadow; ctx.fill();
+      const shoulders = new Set<number>(stock.radii.map(r => Math.round(r * 2) / 2));
+      ctx.strokeStyle = 'rgba(0,0,0,0.6)'; ctx.lineWidth = 1.5;
+      shoulders.forEach(r => {
+         if (r <= 0 || r * SCALE >= partRadius) return;
+         ctx.beginPath(); ctx.arc(cx, cy, r * SCALE, 0, Math.PI*2); ctx.stroke();
+      });
       if (simState.spindleDirection !== 'STOP') {
-         ctx.strokeStyle = 'rgba(255,255,255,0.1)'; ctx.beginPath(); ctx.arc(cx, cy, stockRadius * 0.5, 0, Math.PI*2); ctx.stroke();
-         ctx.beginPath(); ctx.arc(cx, cy, stockRadius * 0.8, 0, Math.PI*2); ctx.stroke();
+         ctx.strokeStyle = 'rgba(255,255,255,0.1)'; ctx.lineWidth = 1; ctx.beginPath(); ctx.arc(cx, cy, partRadius * 0.5, 0, Math.PI*2); ctx.stroke();
+         ctx.beginPath(); ctx.arc(cx, cy, partRadius * 0.8, 0, Math.PI*2); ctx.stroke();
       }
       ctx.restore();
-      const toolDist = (simState.x / 2) * SCALE; const tx = cx; const ty = cy - toolDist;
+      const toolDist = (motionRef.current.position.x / 2) * SCALE; const tx = cx; const ty = cy - toolDist;
       toolScreenPosRef.current = { x: tx, y: ty };
       ctx.save(); ctx.translate(tx, ty); ctx.fillStyle = tools.find(t=>t.id===simState.tool)?.color || '#ff0000';
       ctx.beginPath(); ctx.moveTo(0,0); ctx.lineTo(-10, -20); ctx.lineTo(10, -20); ctx.fill();
@@ -719,25 +980,35 @@ export const Simulator: React.FC<SimulatorProps> = ({
   useEffect(() => {
     requestRef.current = requestAnimationFrame(animate);
     return () => { if (requestRef.current) cancelAnimationFrame(requestRef.current); };
-  }, [simState, feedOverride, stockMaterial, tools, showPaths, showTrace, viewMode, particleConfig, originOffset]); 
+  }, [simState, machineState, feedOverride, rapidRate, stockMaterial, tools, showPaths, showTrace, viewMode, particleConfig, originOffset, onBlockComplete, onStateChange, highlightLine, toolSetter]); 
 
   const handleConfirmTool = () => {
     setPendingToolChange(null);
+    motionRef.current.hold = false;
+    if (pendingRef.current) pendingRef.current.hold = false;
     if (onRequestResume) onRequestResume();
   };
 
   const getToolInfo = (cmd: GCodeCommand) => {
     if (!cmd.code) return null;
-    const toolIdStr = cmd.code.toString();
-    let id = parseInt(toolIdStr);
-    if (toolIdStr.length >= 2) id = parseInt(toolIdStr.substring(0, 2));
-    return tools.find(t => t.id === id);
+    const { tool } = parseToolCode(cmd.code);
+    return tools.find(t => t.id === tool);
   };
 
   return (
     <div className="relative w-full h-full bg-cnc-950 rounded-lg overflow-hidden border border-cnc-700 shadow-2xl crt-screen group">
-        <canvas ref={canvasRef} width={800} height={400} className="w-full h-full object-cover" onMouseMove={handleMouseMove} onMouseLeave={handleMouseLeave} />
+        <canvas ref={canvasRef} width={800} height={400} className="w-full h-full object-cover" onMouseMove={handleMouseMove} onMouseLeave={handleMouseLeave} onClick={handleCanvasClick} />
         <div className="crt-scanline"></div>
+        {loadProgress && (
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 w-64 bg-zinc-900/90 backdrop-blur border border-zinc-700 rounded-lg px-3 py-2 shadow-2xl">
+                <div className="flex items-center justify-between text-[10px] font-bold font-mono mb-1.5">
+                    <span className="text-cnc-accent flex items-center gap-1.5"><Loader2 size={12} className="animate-spin" />INTERPRETANDO PROGRAMA</span>
+                    <span className="text-zinc-400 tabular-nums">{Math.floor((loadProgress.done / loadProgress.total) * 100)}%</span>
+                </div>
+                <div className="h-1 bg-zinc-800 rounded overflow-hidden"><div className="h-full bg-cnc-accent transition-[width]" style={{ width: `${(loadProgress.done / loadProgress.total) * 100}%` }}></div></div>
+                <div className="text-[9px] text-zinc-500 font-mono mt-1 tabular-nums">{loadProgress.done} / {loadProgress.total} bloques</div>
+            </div>
+        )}
         <div className="absolute top-4 left-4 flex flex-col gap-2 bg-zinc-900/90 backdrop-blur border border-zinc-700 p-3 rounded-xl z-20 shadow-2xl min-w-[140px]">
             <div className="flex items-center justify-between border-b border-zinc-800 pb-2">
                 <span className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Husillo</span>
@@ -746,9 +1017,18 @@ export const Simulator: React.FC<SimulatorProps> = ({
                 {simState.spindleDirection === 'STOP' && <Octagon className="text-red-500" size={16} />}
             </div>
             <div className="flex flex-col items-center py-1">
-                <span className="text-2xl font-mono font-bold text-white tracking-widest tabular-nums">{Math.round(simState.spindleSpeed)}</span>
+                <span className={`text-2xl font-mono font-bold tracking-widest tabular-nums ${liveSpindle.spindleClamped ? 'text-amber-400' : 'text-white'}`}>{Math.round(liveSpindle.spindleSpeed)}</span>
                 <span className="text-[10px] text-zinc-600 font-bold">RPM</span>
+                {simState.spindleMode === 'CSS' && (
+                    <span className="text-[10px] text-cnc-accent font-mono font-bold mt-1">G96 {simState.programmedSpeed} m/min</span>
+                )}
             </div>
+            {liveSpindle.spindleClamped && (
+                <div className="flex items-center gap-1.5 text-[10px] font-bold text-amber-400 bg-amber-900/20 border border-amber-700/50 rounded px-2 py-1" title="La velocidad de corte real es menor que la programada">
+                    <AlertTriangle size={12} className="shrink-0" />
+                    <span>LÍMITE {simState.maxSpindleSpeed !== undefined ? `G50 S${simState.maxSpindleSpeed}` : 'MÁQUINA'}</span>
+                </div>
+            )}
             <div className={`text-xs font-bold text-center py-1 rounded ${simState.spindleDirection === 'STOP' ? 'bg-red-900/20 text-red-500' : simState.spindleDirection === 'CW' ? 'bg-green-900/20 text-green-500' : 'bg-yellow-900/20 text-yellow-500'}`}>
                 {simState.spindleDirection === 'STOP' ? 'DETENIDO' : simState.spindleDirection === 'CW' ? 'GIRANDO CW' : 'GIRANDO CCW'}
             </div>
@@ -774,7 +1054,7 @@ export const Simulator: React.FC<SimulatorProps> = ({
         {tooltip && (
             <div style={{ top: tooltip.y + 15, left: tooltip.x + 15 }} className="absolute bg-zinc-900/95 border border-cnc-accent p-3 rounded shadow-2xl z-50 pointer-events-none text-xs backdrop-blur min-w-[180px] animate-in fade-in zoom-in-95 duration-150">
                 <div className="font-bold text-cnc-accent text-sm mb-2 border-b border-zinc-700 pb-1 flex justify-between items-center"><span>{tooltip.tool.name}</span><span className="text-[10px] bg-zinc-800 px-1 rounded text-zinc-400">T{tooltip.tool.id < 10 ? '0'+tooltip.tool.id : tooltip.tool.id}</span></div>
-                <div className="text-zinc-400 space-y-1.5"><div className="flex justify-between items-center"><span>Portaherramienta:</span><span className="text-white font-mono font-bold text-[10px]">{tooltip.tool.holderMaterial || 'Acero Estándar'}</span></div><div className="flex justify-between items-center"><span>Pieza Trabajo:</span><div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full border border-white/20" style={{ background: getMaterialColor(stockMaterial) }}></div><span className="text-white font-mono font-bold">{translateMaterial(stockMaterial)}</span></div></div><div className="flex justify-between items-center"><span>Tipo Inserto:</span><span className="text-white font-mono font-bold text-[10px]">{tooltip.tool.holderType}</span></div><div className="flex justify-between items-center"><span>Desgaste:</span><span className={`${tooltip.tool.wear > 50 ? 'text-red-500' : 'text-green-500'} font-mono font-bold`}>{tooltip.tool.wear.toFixed(1)}%</span></div></div>
+                <div className="text-zinc-400 space-y-1.5"><div className="flex justify-between items-center"><span>Portaherramienta:</span><span className="text-white font-mono font-bold text-[10px]">{tooltip.tool.holderMaterial || 'Acero Estándar'}</span></div><div className="flex justify-between items-center"><span>Pieza Trabajo:</span><div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full border border-white/20" style={{ background: getMaterialColor(stockMaterial) }}></div><span className="text-white font-mono font-bold">{translateMaterial(stockMaterial)}</span></div></div><div className="flex justify-between items-center"><span>Tipo Inserto:</span><span className="text-white font-mono font-bold text-[10px]">{tooltip.tool.holderType}</span></div><div className="flex justify-between items-center"><span>Radio / Punta:</span><span className="text-white font-mono font-bold">R{tooltip.tool.noseRadius} · T{tooltip.tool.tipDirection}</span></div><div className="flex justify-between items-center"><span>Desgaste:</span><span className={`${tooltip.tool.wear > 50 ? 'text-red-500' : 'text-green-500'} font-mono font-bold`}>{tooltip.tool.wear.toFixed(1)}%</span></div></div>
             </div>
         )}
         {pendingToolChange && (
@@ -784,7 +1064,7 @@ export const Simulator: React.FC<SimulatorProps> = ({
                     <AlertTriangle className="mx-auto text-yellow-500 mb-4 h-12 w-12" />
                     <h3 className="text-xl font-bold text-yellow-500 tracking-widest mb-1">ACCIÓN MANUAL REQUERIDA</h3>
                     <p className="text-zinc-400 text-sm mb-6 uppercase tracking-wide">Por favor confirma el cambio de herramienta</p>
-                    <div className="bg-black border border-zinc-800 p-4 mb-6 rounded text-left"><div className="text-xs text-zinc-500 font-mono mb-1">HERRAMIENTA SOLICITADA</div><div className="text-2xl font-bold text-white font-mono flex justify-between items-end"><span>T{pendingToolChange.code}</span><span className="text-sm text-cnc-accent mb-1">{getToolInfo(pendingToolChange)?.name.split('-')[1].trim()}</span></div></div>
+                    <div className="bg-black border border-zinc-800 p-4 mb-6 rounded text-left"><div className="text-xs text-zinc-500 font-mono mb-1">HERRAMIENTA SOLICITADA</div><div className="text-2xl font-bold text-white font-mono flex justify-between items-end"><span>T{String(pendingToolChange.code).padStart((pendingToolChange.code ?? 0) >= 100 ? 4 : 2, '0')}</span><span className="text-sm text-cnc-accent mb-1">{getToolInfo(pendingToolChange)?.name.split('-')[1].trim()}</span></div></div>
                     <button onClick={handleConfirmTool} className="w-full bg-yellow-600 hover:bg-yellow-500 text-black font-bold py-3 px-6 rounded transition-all flex items-center justify-center gap-2"><CheckCircle2 size={20} />CONFIRMAR Y RESUMIR</button>
                 </div>
             </div>
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Wrench, X } from 'lucide-react';
+import { ToolOffset, ToolOffsets } from '../types';
+
+interface ToolOffsetPageProps {
+  offsets: ToolOffsets;
+  activeOffset: number; // Offset of the Txxyy in effect, highlighted
+  onChange: (offsets: ToolOffsets) => void;
+  onClose: () => void;
+}
+
+type OffsetField = keyof ToolOffset;
+
+const COLUMNS: { field: OffsetField; label: string; group: string }[] = [
+  { field: 'geometryX', label: 'X', group: 'GEOMETRÍA' },
+  { field: 'geometryZ', label: 'Z', group: 'GEOMETRÍA' },
+  { field: 'wearX', label: 'X', group: 'DESGASTE' },
+  { field: 'wearZ', label: 'Z', group: 'DESGASTE' },
+  { field: 'noseRadius', label: 'R', group: 'PUNTA' },
+  { field: 'tipDirection', label: 'T', group: 'PUNTA' }
+];
+
+const formatField = (field: OffsetField, value: number) => (field === 'tipDirection' ? String(value) : value.toFixed(3));
+
+// Value a field can hold: T is a tip number 0-9, R can't be negative
+const validValue = (field: OffsetField, value: number): boolean => {
+  if (field === 'tipDirection') return Number.isInteger(value) && value >= 0 && value <= 9;
+  if (field === 'noseRadius') return value >= 0;
+  return true;
+};
+
+/**
+ * Fanuc OFFSET page: pick a cell, type a value and INPUT replaces it while
+ * +INPUT adds to it (the usual way to bump a wear offset, e.g. X -0.02).
+ */
+export const ToolOffsetPage: React.FC<ToolOffsetPageProps> = ({ offsets, activeOffset, onChange, onClose }) => {
+  const [cell, setCell] = useState<{ number: number; field: OffsetField }>({ number: activeOffset || 1, field: 'wearX' });
+  const [buffer, setBuffer] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const enter = (add: boolean) => {
+    const typed = parseFloat(buffer);
+    if (isNaN(typed)) {
+      setMessage('Escriba un valor');
+      return;
+    }
+    const current = offsets[cell.number][cell.field];
+    const value = Number((add ? current + typed : typed).toFixed(4));
+    if (!validValue(cell.field, value)) {
+      setMessage(cell.field === 'tipDirection' ? 'La punta T va de 0 a 9' : 'El radio no puede ser negativo');
+      return;
+    }
+    onChange({ ...offsets, [cell.number]: { ...offsets[cell.number], [cell.field]: value } });
+    setBuffer('');
+    setMessage(null);
+  };
+
+  const numbers = Object.keys(offsets).map(Number).sort((a, b) => a - b);
+  const column = COLUMNS.find(c => c.field === cell.field)!;
+
+  return (
+    <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in">
+        <div className="bg-cnc-900 border border-cnc-700 p-6 rounded-xl w-[40rem] max-h-[90vh] flex flex-col shadow-2xl relative">
+            <div className="flex items-center justify-between mb-4 border-b border-cnc-800 pb-4">
+                <h3 className="text-xl font-bold text-white flex items-center gap-2"><Wrench className="text-cnc-accent" size={24} /><span className="tracking-wider">CORRECTORES DE HERRAMIENTA</span></h3>
+                <button onClick={onClose} className="text-zinc-500 hover:text-white" title="Cerrar"><X size={18} /></button>
+            </div>
+            <div className="overflow-y-auto custom-scrollbar min-h-0">
+                <table className="w-full font-mono text-xs tabular-nums">
+                    <thead className="text-[10px] text-zinc-500">
+                        <tr><th></th><th colSpan={2} className="font-bold">GEOMETRÍA</th><th colSpan={2} className="font-bold">DESGASTE</th><th colSpan={2} className="font-bold">PUNTA</th></tr>
+                        <tr><th className="text-left font-bold">Nº</th>{COLUMNS.map(c => <th key={c.field} className="font-bold text-right px-2">{c.label}</th>)}</tr>
+                    </thead>
+                    <tbody>
+                        {numbers.map(n => (
+                            <tr key={n} className={n === activeOffset ? 'bg-cnc-accent/10' : ''}>
+                                <td className={`font-bold ${n === activeOffset ? 'text-cnc-accent' : 'text-zinc-400'}`}>{String(n).padStart(2, '0')}</td>
+                                {COLUMNS.map(c => (
+                                    <td key={c.field} onClick={() => setCell({ number: n, field: c.field })}
+                                        className={`text-right px-2 py-0.5 cursor-pointer ${cell.number === n && cell.field === c.field ? 'bg-cnc-accent text-black font-bold' : offsets[n][c.field] !== 0 ? 'text-white' : 'text-zinc-600'}`}>
+                                        {formatField(c.field, offsets[n][c.field])}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="mt-4 flex items-center gap-2">
+                <span className="font-mono text-xs text-zinc-400 w-40">Nº {String(cell.number).padStart(2, '0')} · {column.group} {column.label}</span>
+                <input type="text" inputMode="decimal" value={buffer} onChange={(e) => setBuffer(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') enter(e.shiftKey); }} placeholder="-0.02"
+                    className="flex-1 bg-black border border-zinc-700 rounded px-3 py-1.5 text-white font-mono text-sm focus:border-cnc-accent outline-none" />
+                <button onClick={() => enter(true)} className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-white font-bold rounded text-xs tracking-wider" title="Suma el valor al actual (Mayús+Intro)">+INPUT</button>
+                <button onClick={() => enter(false)} className="px-3 py-1.5 bg-cnc-accent hover:bg-yellow-500 text-black font-bold rounded text-xs tracking-wider" title="Sustituye el valor (Intro)">INPUT</button>
+            </div>
+            {message && <p className="text-[10px] text-red-400 mt-2 font-mono">{message}</p>}
+            <p className="text-[10px] text-zinc-500 mt-2 leading-relaxed">T0101 lleva la herramienta 01 con el corrector 01: la punta se desplaza geometría + desgaste (X en diámetro). La geometría compensa lo que sobresale la herramienta; se mide en PREPARACIÓN. Un desgaste X-0.02 deja el diámetro 0.02 mm menor. R y T son el radio y la punta imaginaria que usa G41/G42.</p>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Target, X } from 'lucide-react';
+import { ManualPosition, ToolConfig, ToolOffsets } from '../types';
+import { JOG_INCREMENTS } from '../services/operatingModes';
+import { ToolSetter, measuredGeometry, setterContact } from '../services/toolSetup';
+import { JogPad } from './JogPad';
+
+interface ToolSetupPanelProps {
+  position: ManualPosition;
+  tools: ToolConfig[];
+  offsets: ToolOffsets;
+  partZero: { x: number; z: number }; // G54 part zero, in scene coordinates
+  stockDiameter?: number; // Bar diameter of the lesson, the usual first touch
+  setter: ToolSetter;
+  setterDeployed: boolean;
+  onMove: (position: ManualPosition) => void; // Stopped at the stylus and the soft limits by the caller
+  onToggleSetter: () => void;
+  onChangeOffsets: (offsets: ToolOffsets) => void;
+  onClose: () => void;
+}
+
+/**
+ * Setup mode: jog the tool until it touches the stock (a turned diameter or the
+ * face) or the setter stylus, then MEDIR writes the geometry of its offset.
+ */
+export const ToolSetupPanel: React.FC<ToolSetupPanelProps> = ({
+  position, tools, offsets, partZero, stockDiameter, setter, setterDeployed, onMove, onToggleSetter, onChangeOffsets, onClose
+}) => {
+  const [step, setStep] = useState<number>(1);
+  const [typed, setTyped] = useState({ x: '', z: '' });
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const tool = tools.find(t => t.id === position.tool) || tools[0];
+  const contact = setterDeployed ? setterContact(position, setter) : null;
+
+  const jog = (axis: 'x' | 'z', direction: 1 | -1) => {
+    onMove({ ...position, [axis]: Number((position[axis] + direction * step).toFixed(4)) });
+  };
+
+  // The turret indexes in place: the tip stays where it is and takes its own offset line
+  const selectTool = (id: number) => onMove({ ...position, tool: id, offset: id });
+
+  // On the stylus the setter face is the reference; elsewhere the value typed from the micrometer
+  const measure = (axis: 'x' | 'z') => {
+    const line = offsets[position.offset];
+    if (!line) {
+      setMessage({ text: `El corrector ${position.offset} no existe`, error: true });
+      return;
+    }
+    let geometry: number;
+    if (contact === axis) {
+      geometry = measuredGeometry(axis, position, tool, { x: setter.top, z: setter.front }, 0);
+    } else {
+      const value = parseFloat(typed[axis]);
+      if (isNaN(value)) {
+        setMessage({ text: axis === 'x' ? 'Escriba el diámetro medido' : 'Escriba la Z de la cara (normalmente 0)', error: true });
+        return;
+      }
+      geometry = measuredGeometry(axis, position, tool, partZero, value);
+    }
+    const field = axis === 'x' ? 'geometryX' : 'geometryZ';
+    onChangeOffsets({ ...offsets, [position.offset]: { ...line, [field]: geometry } });
+    setTyped(prev => ({ ...prev, [axis]: '' }));
+    setMessage({ text: `Corrector ${String(position.offset).padStart(2, '0')}: geometría ${axis.toUpperCase()} = ${geometry.toFixed(3)}${contact === axis ? ' (palpador)' : ''}`, error: false });
+  };
+
+  const measureRow = (axis: 'x' | 'z') => (
+      <div className="flex items-center gap-2">
+          <span className="font-mono text-xs text-zinc-400 w-16">{axis === 'x' ? 'Ø medido' : 'Z cara'}</span>
+          <input type="text" inputMode="decimal" value={contact === axis ? '' : typed[axis]} disabled={contact === axis}
+              onChange={(e) => setTyped(prev => ({ ...prev, [axis]: e.target.value }))} onKeyDown={(e) => { if (e.key === 'Enter') measure(axis); }}
+              placeholder={contact === axis ? 'palpador' : axis === 'x' ? stockDiameter?.toFixed(3) ?? 'Ø' : '0'}
+              className="flex-1 min-w-0 bg-black border border-zinc-700 rounded px-2 py-1 text-white font-mono text-xs focus:border-cnc-accent outline-none disabled:opacity-50" />
+          <button onClick={() => measure(axis)} className="px-3 py-1 bg-cnc-accent hover:bg-yellow-500 text-black font-bold rounded text-xs tracking-wider">MEDIR {axis.toUpperCase()}</button>
+      </div>
+  );
+
+  return (
+    <div className="absolute bottom-4 left-4 z-30 w-80 bg-cnc-900/95 border border-cnc-700 rounded-xl p-4 shadow-2xl backdrop-blur space-y-3">
+        <div className="flex items-center justify-between border-b border-cnc-800 pb-2">
+            <h3 className="text-sm font-bold text-white flex items-center gap-2"><Target className="text-cnc-accent" size={16} /><span className="tracking-wider">PREPARACIÓN DE HERRAMIENTAS</span></h3>
+            <button onClick={onClose} className="text-zinc-500 hover:text-white" title="Cerrar"><X size={16} /></button>
+        </div>
+        <div className="flex gap-1">
+            {tools.map(t => (
+                <button key={t.id} onClick={() => selectTool(t.id)} title={t.name}
+                    className={`flex-1 py-1 rounded text-xs font-bold font-mono ${t.id === position.tool ? 'bg-cnc-accent text-black' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}>T{String(t.id).padStart(2, '0')}{String(t.id).padStart(2, '0')}</button>
+            ))}
+        </div>
+        <div className="flex items-center gap-3">
+            <JogPad onJog={jog} />
+            <div className="flex-1 space-y-1">
+                <span className="block text-[10px] font-bold text-zinc-500 uppercase">Paso (mm)</span>
+                <div className="grid grid-cols-3 gap-1">
+                    {JOG_INCREMENTS.map(s => (
+                        <button key={s} onClick={() => setStep(s)} className={`py-0.5 rounded text-[10px] font-mono font-bold ${s === step ? 'bg-cnc-accent text-black' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}>{s}</button>
+                    ))}
+                </div>
+            </div>
+        </div>
+        <button onClick={onToggleSetter} className={`w-full py-1 rounded text-[10px] font-bold tracking-wider border ${setterDeployed ? 'border-lime-500 text-lime-400 bg-lime-900/20' : 'border-zinc-700 text-zinc-400 hover:text-white'}`}>
+            BRAZO PALPADOR: {setterDeployed ? 'EN POSICIÓN' : 'RECOGIDO'}{contact ? ` · CONTACTO ${contact.toUpperCase()}` : ''}
+        </button>
+        {measureRow('x')}
+        {measureRow('z')}
+        {message && <p className={`text-[10px] font-mono ${message.error ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+        <p className="text-[10px] text-zinc-500 leading-relaxed">Roce el diámetro de la barra (o uno recién torneado con el husillo en marcha), retire en Z y escriba el diámetro; roce la cara y escriba 0. Con el brazo palpador, acerque la punta hasta que pare en la cara de arriba (X) o en la de delante (Z). MEDIR escribe la geometría en el corrector; el desgaste no cambia.</p>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Variable } from 'lucide-react';
+import { SimulationState } from '../types';
+import { SYSTEM_VARIABLE_NUMBERS, readVariable } from '../services/macroEngine';
+
+interface VariablesPanelProps {
+  state: SimulationState;
+}
+
+// Up to 4 decimals, without trailing zeros
+const formatValue = (value: number) => String(Number(value.toFixed(4)));
+
+const VariableList = ({ title, entries }: { title: string; entries: [number, number][] }) => (
+  <div className="flex flex-col gap-0.5">
+      <span className="text-zinc-600 font-bold">{title}</span>
+      {entries.length > 0 ? (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+              {entries.map(([n, value]) => (
+                  <div key={n} className="flex justify-between"><span className="text-purple-400 font-bold">#{n}</span><span className="text-white tabular-nums">{formatValue(value)}</span></div>
+              ))}
+          </div>
+      ) : (
+          <span className="text-zinc-600 font-normal">Vacías</span>
+      )}
+  </div>
+);
+
+/** Macro variable inspector: the values as of the block in motion */
+export const VariablesPanel: React.FC<VariablesPanelProps> = ({ state }) => {
+  const assigned = Object.keys(state.variables).map(Number).sort((a, b) => a - b).map((n): [number, number] => [n, state.variables[n]]);
+  // #5001/#5002 read the programmed position: in the active work coordinate system, less the tool offset
+  const machine = { x: state.x - state.workOrigin.x - state.toolOffset.x, z: state.z - state.workOrigin.z - state.toolOffset.z, modal: state.modal, feed: state.feedRate, s: state.programmedSpeed, tool: state.tool };
+  const system = SYSTEM_VARIABLE_NUMBERS.map((n): [number, number] => [n, readVariable(state.variables, n, machine) ?? 0]);
+
+  return (
+    <div className="bg-zinc-900/80 backdrop-blur rounded-xl border border-zinc-800 overflow-hidden flex flex-col shadow-lg">
+        <div className="px-4 py-2 bg-zinc-800/50 border-b border-zinc-800 flex items-center justify-between">
+            <div className="flex items-center gap-2"><Variable size={14} className="text-cnc-accent" /><span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Variables Macro</span></div>
+            <span className="font-mono text-[10px] font-bold text-zinc-500">{assigned.length} ASIGNADAS</span>
+        </div>
+        <div className="p-3 flex flex-col gap-2 text-[10px] font-mono max-h-48 overflow-y-auto custom-scrollbar">
+            <VariableList title="LOCALES #1–#33" entries={assigned.filter(([n]) => n <= 33)} />
+            <VariableList title="COMUNES #100–#199 · #500–#999" entries={assigned.filter(([n]) => n >= 100)} />
+            <VariableList title="SISTEMA" entries={system} />
+        </div>
+    </div>
+  );
+};
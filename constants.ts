@@ -7,8 +7,9 @@ export const TOOLS: ToolConfig[] = [
     type: 'general', 
     color: '#FFD700', 
     width: 2, 
-    lengthOffset: 5.5, 
     noseRadius: 0.8,
+    tipDirection: 3,
+    reach: { x: 0, z: 0 },
     holderMaterial: 'Acero Endurecido 4140',
     holderType: 'DCLNR 2525M 12',
     wear: 0
@@ -19,8 +20,9 @@ export const TOOLS: ToolConfig[] = [
     type: 'grooving', 
     color: '#00FFFF', 
     width: 3, 
-    lengthOffset: 3.0, 
     noseRadius: 0.2,
+    tipDirection: 3,
+    reach: { x: 12.4, z: -3.6 },
     holderMaterial: 'Acero para Resortes',
     holderType: 'MGEHR 2525-3',
     wear: 0
@@ -31,8 +33,9 @@ export const TOOLS: ToolConfig[] = [
     type: 'threading', 
     color: '#FF00FF', 
     width: 1, 
-    lengthOffset: 8.2, 
     noseRadius: 0.1,
+    tipDirection: 8,
+    reach: { x: -5.2, z: 2.15 },
     holderMaterial: 'Acero Endurecido',
     holderType: 'SER 2525M 16',
     wear: 0
@@ -63,6 +66,7 @@ M30`
     id: 'g00-g01',
     title: '2. Movimientos Básicos (G00/G01)',
     module: 2,
+    stockDiameter: 50,
     content: `
 # Interpolación Lineal
 
@@ -92,6 +96,7 @@ N90 M30`
     id: 'g02-g03',
     title: '3. Interpolación Circular (G02/G03)',
     module: 2,
+    stockDiameter: 40,
     content: `
 # Interpolación Circular
 
@@ -107,7 +112,10 @@ Mueve la herramienta en un arco a la izquierda (sentido contrario agujas).
 
 **Parámetros:**
 * **X, Z:** Coordenadas del punto final del arco.
-* **R:** Radio del arco.
+* **R:** Radio del arco. Un R negativo selecciona el arco mayor de 180°.
+* **I, K:** Alternativa a R: distancia incremental del inicio al centro (I en radio sobre X, K sobre Z).
+
+Si el radio inicial y el final no coinciden (con I/K) o R es demasiado pequeño para los puntos dados, el control genera una ALARMA.
     `,
     defaultCode: `N10 G28 U0 W0
 N20 T0101
@@ -125,6 +133,7 @@ N110 M30`
     id: 'g71',
     title: '4. Ciclo de Desbaste (G71)',
     module: 2,
+    stockDiameter: 60,
     content: `
 # Ciclo G71
 
@@ -158,6 +167,7 @@ N140 M30`
     id: 'g70',
     title: '5. Ciclo de Acabado (G70)',
     module: 3,
+    stockDiameter: 60,
     content: `
 # Ciclo de Acabado G70
 
@@ -197,6 +207,7 @@ N180 M30`
     id: 'g75',
     title: '6. Ranurado (G75)',
     module: 3,
+    stockDiameter: 50,
     content: `
 # Ciclo de Ranurado G75
 
@@ -226,6 +237,7 @@ N90 M30`
     id: 'g76',
     title: '7. Ciclo de Roscado (G76)',
     module: 4,
+    stockDiameter: 24,
     content: `
 # Ciclo de Roscado G76
 
@@ -236,9 +248,14 @@ G76 es el ciclo más completo para realizar roscas en múltiples pasadas.
 2. \`G76 X(fin) Z(fin) P(altura) Q(primera) F(paso)\`
 
 * **P(mra):** m=repeticiones, r=bisel salida, a=ángulo herramienta (60°).
+* **Q(min):** Profundidad mínima de pasada (micras).
+* **R(acabado):** Sobremedida para la pasada de acabado (mm).
 * **X, Z:** Coordenadas finales de la rosca.
 * **P(altura):** Altura de la rosca (micras).
+* **Q(primera):** Profundidad de la primera pasada (micras).
 * **F:** Paso de la rosca (mm).
+
+Las pasadas siguen la regla de volumen constante: la profundidad acumulada de la pasada n es Q×√n, entrando por el flanco a la mitad del ángulo a.
     `,
     defaultCode: `N10 G28 U0 W0
 N20 T0303 (Herramienta Rosca 60°)
@@ -257,6 +274,7 @@ N90 M30`
     id: 'g41-g42',
     title: '8. Compensación de Radio (G41/G42)',
     module: 4,
+    stockDiameter: 60,
     content: `
 # Compensación de Radio
 
@@ -268,6 +286,12 @@ La punta de la herramienta tiene un radio (ej. 0.8mm). Al mecanizar conos o arco
 * **G42:** Compensación a la DERECHA del material.
 
 Para torneado exterior hacia el plato, generalmente se usa **G42**.
+
+### Punta imaginaria y esquinas
+El control desplaza el centro del radio paralelo al perfil y, en cada esquina, lo lleva al cruce de los dos desplazamientos. La línea magenta es la **punta imaginaria** que sigue la máquina, según la dirección de punta de la herramienta (T1-T9): la T0101 es **T3**, exterior hacia el plato.
+
+* El bloque que activa G41/G42 y el de G40 deben ser rectas (G00/G01).
+* Si el radio no cabe en el contorno (ranura o arco cóncavo más estrecho que la punta) salta la **alarma 041**.
     `,
     defaultCode: `N10 G28 U0 W0
 N20 T0101 (Radio 0.8)
@@ -286,6 +310,7 @@ N100 M30`
     id: 'g74',
     title: '9. Taladrado Profundo (G74)',
     module: 5,
+    stockDiameter: 60,
     content: `
 # Taladrado Profundo G74
 
@@ -314,6 +339,7 @@ N90 M30`
     id: 'g72',
     title: '10. Ciclo de Refrentado (G72)',
     module: 5,
+    stockDiameter: 80,
     content: `
 # Ciclo G72 (Refrentado)
 
@@ -333,9 +359,9 @@ N40 G00 X85 Z2
 N50 G72 W2 R1
 N60 G72 P70 Q100 U0.2 W0.1 F0.25
 N70 G00 Z-10
-N80 G01 X40
+N80 G01 X80
 N90 Z-5
-N100 X80
+N100 X40 Z-1
 N110 G70 P70 Q100 (Acabado)
 N120 G28 U0 W0
 N130 M30`
@@ -344,6 +370,7 @@ N130 M30`
     id: 'g04',
     title: '11. Pausa (G04)',
     module: 6,
+    stockDiameter: 50,
     content: `
 # Pausa (Dwell) G04
 
@@ -402,6 +429,7 @@ N100 M30`
     id: 'g32',
     title: '13. Roscado Manual (G32)',
     module: 7,
+    stockDiameter: 30,
     content: `
 # Roscado paso a paso (G32)
 
@@ -465,6 +493,7 @@ N120 M30`
     id: 'parting',
     title: '15. Tronzado',
     module: 8,
+    stockDiameter: 60,
     content: `
 # Operación de Tronzado
 
@@ -489,6 +518,7 @@ N100 M30`
     id: 'capstone',
     title: '16. Proyecto Final',
     module: 8,
+    stockDiameter: 50,
     content: `
 # Desafío Final: Perno Especial
 
@@ -533,5 +563,213 @@ N230 G76 P010060 Q50 R0.02
 N240 G76 X18.16 Z-18 P920 Q200 F1.5
 N250 G28 U0 W0
 N260 M30`
+  },
+  {
+    id: 'macro-b',
+    title: '17. Programación Paramétrica (Macro B)',
+    module: 9,
+    stockDiameter: 50,
+    content: `
+# Variables y Bucles
+
+Con Macro B el programa calcula sus propias cotas. Una variable se escribe con # y se usa en lugar de un número.
+
+**Variables:**
+* **#1–#33:** Locales.
+* **#100–#199, #500–#999:** Comunes.
+* **#4001–#4120, #5001/#5002:** Sistema (modales, F/S/T, posición X/Z), solo lectura.
+
+**Expresiones:** + - * / MOD, [ ] para agrupar y funciones SIN, COS, ATAN, SQRT, ABS, ROUND, FIX, FUP (ángulos en grados).
+
+**Control:**
+* **IF [#1 GT 10] GOTO 50:** Salta a N50 si se cumple la condición (EQ, NE, GT, GE, LT, LE).
+* **WHILE [...] DO1 ... END1:** Repite el bloque mientras se cumple.
+
+El panel de Variables muestra sus valores mientras el programa se ejecuta.
+    `,
+    defaultCode: `N10 G28 U0 W0
+N20 T0101
+N30 G97 S1000 M03
+#100 = 48 (DIAMETRO ACTUAL)
+#101 = 30 (DIAMETRO FINAL)
+#102 = 3 (PROFUNDIDAD POR PASADA EN DIAMETRO)
+N40 G00 X52 Z2
+WHILE [#100 GT #101] DO1
+#100 = #100 - #102
+IF [#100 GE #101] GOTO 60
+#100 = #101 (ULTIMA PASADA)
+N60 G01 X#100 F0.25
+Z-30
+G00 U2 Z2
+END1
+N70 G28 U0 W0
+N80 M30`
+  },
+  {
+    id: 'subprograms',
+    title: '18. Subprogramas (M98/M99)',
+    module: 9,
+    stockDiameter: 40,
+    content: `
+# Subprogramas
+
+Una operación que se repite se escribe una sola vez en su propio programa O y se llama desde el principal. Cada programa ocupa una pestaña del editor.
+
+**Llamada y retorno:**
+* **M98:** Llama al subprograma O(P) y lo repite L veces: M98 P2000 L4. También vale P40002000 (4 veces O2000).
+* **M99:** Termina el subprograma y vuelve al bloque siguiente al M98, o a N(P) con M99 P. En el programa principal lo vuelve a empezar.
+
+Un subprograma puede llamar a otro hasta 4 niveles. Escrito en incremental (U/W), cada repetición trabaja a continuación de la anterior.
+
+**Depuración:** en bloque a bloque, el M98 entra en el subprograma y el editor cambia a su pestaña.
+    `,
+    defaultCode: `O1001 (RANURAS)
+N10 G28 U0 W0
+N20 T0202
+N30 G97 S600 M03
+N40 G00 X42 Z-5
+N50 M98 P2000 L4
+N60 G00 X100
+N70 G28 U0 W0
+N80 M30`,
+    subprograms: [{
+      number: 2000,
+      code: `O2000 (RANURA)
+G01 U-10 F0.05
+G04 X0.5
+G00 U10
+W-8
+M99`
+    }]
+  },
+  {
+    id: 'work-offsets',
+    title: '19. Origen de Pieza (G54–G59 / G50)',
+    module: 10,
+    stockDiameter: 40,
+    content: `
+# Origen de Pieza
+
+El programa se escribe desde el cero pieza, no desde la máquina. El control suma el decalaje del origen activo a cada cota.
+
+**Sistemas de coordenadas G54–G59:**
+* Cada uno guarda la posición del cero pieza medida desde Home. Se editan en CONFIGURACIÓN → Orígenes de Pieza.
+* G54 es el activo al encender. G55–G59 sirven para una segunda pieza o una segunda amarra sin cambiar el programa.
+* Al cambiar de sistema la herramienta no se mueve: cambian las cotas que muestra el visualizador.
+
+**G50 X/Z (preajuste):** la posición actual de la herramienta pasa a leerse X/Z y desplaza todos los sistemas. Con U/W suma a la lectura actual. G50 S sigue limitando las RPM.
+
+**Visualizador (DRO):**
+* **ABS:** cotas de pieza en el origen activo.
+* **REL:** desde un cero del operador; pulse X o Z para ponerlo a cero donde está la herramienta.
+* **MÁQ:** desde el punto de referencia (Home).
+* **RESTO:** lo que falta para terminar el bloque.
+
+En el ejemplo, la cara en Z0 se declara Z10: el segundo escalón se programa desde un cero 10 mm más adentro.
+    `,
+    defaultCode: `O1003 (ORIGEN DE PIEZA)
+N10 G28 U0 W0
+N20 T0101
+N30 G97 S1000 M03
+N40 G54 G00 X36 Z2
+N50 G01 Z-30 F0.2
+N60 G00 X42 Z0
+N70 G50 Z10 (LA CARA PASA A SER Z10)
+N80 G00 Z2
+N90 G01 X30 F0.1
+N100 Z-10 F0.2
+N110 G00 X42
+N120 G28 U0 W0
+N130 M30`
+  },
+  {
+    id: 'tool-offsets',
+    title: '20. Correctores de Herramienta',
+    module: 10,
+    stockDiameter: 40,
+    content: `
+# Correctores de Herramienta
+
+En T0101 las dos primeras cifras eligen la herramienta y las dos últimas el corrector. Cada línea de la página de correctores (botón de la llave en la barra superior) guarda:
+
+* **Geometría X/Z:** la posición de la punta medida al reglar la herramienta.
+* **Desgaste X/Z:** el ajuste fino que hace el operario tras medir la pieza. X va en diámetro.
+* **R y T:** radio de punta y punta imaginaria para G41/G42.
+
+La punta se desplaza geometría + desgaste; una geometría bien medida compensa lo que sobresale cada herramienta de la torreta. T0100 anula el corrector.
+
+**Corregir un diámetro:** si el programa pide X36 y la pieza mide 36.02, se elige el desgaste X del corrector 01 y se pulsa +INPUT con -0.02. El diámetro siguiente sale 0.02 mm menor.
+
+**Ejercicio:** ponga desgaste X -0.5 en el corrector 01, reinicie y compare el escalón con el de antes.
+    `,
+    defaultCode: `O1004 (CORRECTORES)
+N10 G28 U0 W0
+N20 T0101
+N30 G97 S1200 M03
+N40 G00 X36 Z2
+N50 G01 Z-25 F0.2
+N60 G00 X42 Z2
+N70 G28 U0 W0
+N80 M30`
+  },
+  {
+    id: 'tool-setup',
+    title: '21. Preparación de Herramientas',
+    module: 10,
+    stockDiameter: 40,
+    content: `
+# Preparación de Herramientas
+
+Antes de mecanizar se mide cada herramienta para rellenar la geometría de su corrector. La T01 es la de referencia; la T02 y la T03 sobresalen distinto de la torreta y, sin su geometría, trabajarían fuera de cota.
+
+Con la máquina parada, abra PREPARACIÓN (botón de la diana en la barra superior; el selector pasa a JOG), elija la herramienta y acérquela con los pulsadores X/Z, bajando el paso hasta 0.01 al final:
+
+* **En la pieza:** roce el diámetro de la barra, retire en Z, escriba el diámetro y pulse MEDIR X. Roce la cara, escriba 0 y pulse MEDIR Z. Con el husillo parado, entrar en el material es una colisión.
+* **Con el palpador:** ponga el brazo EN POSICIÓN y acerque la punta hasta que se pare en la cara de arriba (CONTACTO X) o en la de delante (CONTACTO Z) y pulse MEDIR. El palpador está en una posición fija respecto al punto de referencia, así que no hace falta escribir nada.
+
+El control calcula la geometría para que la posición actual se lea como el valor medido. El desgaste no se toca.
+
+**Ejercicio:** en la página de correctores ponga a 0 la geometría X y Z del corrector 02 y ejecute el programa: la ranura cae fuera de sitio y el avance rápido entra en la barra. Mida la T02 con el palpador y repita.
+    `,
+    defaultCode: `O1005 (PREPARACION)
+N10 G28 U0 W0
+N20 T0202
+N30 G97 S800 M03
+N40 G00 X42 Z-10
+N50 G01 X34 F0.05
+N60 G00 X42
+N70 G28 U0 W0
+N80 M30`
+  },
+  {
+    id: 'operating-modes',
+    title: '22. Modos de Operación',
+    module: 10,
+    stockDiameter: 40,
+    content: `
+# Modos de Operación
+
+El selector de modo de la barra superior decide qué hace la máquina, como el conmutador de un panel Fanuc:
+
+* **EDIT:** el programa se puede modificar; en los demás modos el editor es de solo lectura. La máquina arranca en EDIT, y al cargar una lección o importar un CAD vuelve a EDIT.
+* **MEM:** INICIO DE CICLO ejecuta el programa de la memoria desde su primer bloque.
+* **MDI:** se escriben unos bloques a mano (por ejemplo M03 S800 y G00 X42 Z2) y INICIO DE CICLO los ejecuta desde donde está la herramienta, con la herramienta y el corrector activos.
+* **JOG:** los pulsadores X/Z mueven el eje mientras están pulsados, al avance de jog por el porcentaje de avance (RÁPIDO para ir al avance rápido), o un incremento de 0.001 a 10 mm por pulsación.
+* **HANDLE:** el volante electrónico (MPG). Elija eje y multiplicador (×1, ×10, ×100) y gire con la rueda del ratón o con las flechas del teclado.
+* **REF:** retorno al punto de referencia, eje por eje.
+
+En los modos manuales la herramienta se queda donde la deja el operador y el material conserva lo cortado. Con el husillo en marcha un movimiento manual corta; parado, entrar en el material es una colisión. Los límites de software paran el eje antes del final de carrera (SOBRECARRERA), y un bloque MDI o de programa que los pase da la alarma OT0500.
+
+**Ejercicio:** arranque el husillo (M03 en la barra), acerque la herramienta a la cara en JOG y, con el volante en Z ×10, avance 0.2 mm; baje en X con el jog continuo para refrentar. Pase a MDI, escriba G00 X42 Z2 y ejecútelo; vuelva a MEM y ejecute el programa.
+    `,
+    defaultCode: `O1006 (MODOS)
+N10 G28 U0 W0
+N20 T0101
+N30 G97 S1000 M03
+N40 G00 X38 Z2
+N50 G01 Z-20 F0.2
+N60 G00 X42
+N70 G28 U0 W0
+N80 M30`
   }
 ];
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { resolveArc } from './arcInterpolation';
+
+describe('resolveArc', () => {
+  it('finds the center of an I/K arc', () => {
+    // Quarter circle R5 from X20 Z0 to X30 Z-5, center at X20 Z-5
+    const { arc, error } = resolveArc({ x: 20, z: 0 }, { x: 30, z: -5 }, { I: 0, K: -5 }, 'CW', 1);
+    expect(error).toBeUndefined();
+    expect(arc).toEqual({ centerX: 20, centerZ: -5, radius: 5, direction: 'CW' });
+  });
+
+  it('raises an alarm when the start and end radius of an I/K arc differ', () => {
+    const { arc, error } = resolveArc({ x: 20, z: 0 }, { x: 30, z: -6 }, { I: 0, K: -5 }, 'CW', 7);
+    expect(arc).toBeUndefined();
+    expect(error).toBe('Error Arco: radio inicial 5.000 y final 5.099 no coinciden en línea 7');
+  });
+
+  it('accepts a mismatch within the tolerance', () => {
+    expect(resolveArc({ x: 20, z: 0 }, { x: 30, z: -5.005 }, { I: 0, K: -5 }, 'CW', 1).error).toBeUndefined();
+  });
+
+  it('raises an alarm for an R smaller than half the chord', () => {
+    const { error } = resolveArc({ x: 20, z: 0 }, { x: 30, z: -10 }, { R: 5 }, 'CW', 3);
+    expect(error).toBe('Error Arco: R5 demasiado pequeño para la cuerda 11.180 en línea 3');
+  });
+
+  it('picks the major arc for a negative R', () => {
+    const minor = resolveArc({ x: 20, z: 0 }, { x: 30, z: -5 }, { R: 5 }, 'CW', 1).arc!;
+    const major = resolveArc({ x: 20, z: 0 }, { x: 30, z: -5 }, { R: -5 }, 'CW', 1).arc!;
+    expect(minor.centerX).toBeCloseTo(30);
+    expect(minor.centerZ).toBeCloseTo(0);
+    expect(major.centerX).toBeCloseTo(20);
+    expect(major.centerZ).toBeCloseTo(-5);
+  });
+});
@@ -0,0 +1,113 @@
+import { ArcData } from '../types';
+
+/**
+ * Maximum difference (mm) allowed between the start and end radius of an
+ * I/K arc before the control raises an alarm (Fanuc parameter 3410).
+ */
+export const ARC_RADIUS_TOLERANCE = 0.01;
+
+export interface ArcResolution {
+  arc?: ArcData;
+  error?: string;
+}
+
+/**
+ * Resolves the center of a G02/G03 arc in the XZ plane.
+ * X values are diameters; I is a radius-designated increment from the start
+ * point to the center, K the increment in Z. If R is given it takes precedence
+ * over I/K; a negative R selects the arc larger than 180°.
+ */
+export const resolveArc = (
+  start: { x: number; z: number },
+  end: { x: number; z: number },
+  params: Record<string, number>,
+  direction: 'CW' | 'CCW',
+  line: number
+): ArcResolution => {
+  const sr = start.x / 2;
+  const er = end.x / 2;
+  const sz = start.z;
+  const ez = end.z;
+
+  if (params.R !== undefined) {
+    const dz = ez - sz;
+    const dr = er - sr;
+    const chord = Math.sqrt(dz * dz + dr * dr);
+    const radius = Math.abs(params.R);
+
+    if (chord < 0.001) {
+      return { error: `Error Arco: punto final igual al inicial con R en línea ${line} (use I/K para círculo completo)` };
+    }
+    if (radius < 0.001 || chord > 2 * radius + ARC_RADIUS_TOLERANCE) {
+      return { error: `Error Arco: R${params.R} demasiado pequeño para la cuerda ${chord.toFixed(3)} en línea ${line}` };
+    }
+
+    const h = Math.sqrt(Math.max(0, radius * radius - (chord / 2) * (chord / 2)));
+    // Unit normal pointing to the left of the chord (Z horizontal, X up)
+    const nz = -dr / chord;
+    const nr = dz / chord;
+    // CCW minor arcs have their center on the left; CW or R<0 flip the side
+    let side = direction === 'CCW' ? 1 : -1;
+    if (params.R < 0) side = -side;
+
+    const cz = (sz + ez) / 2 + side * h * nz;
+    const cr = (sr + er) / 2 + side * h * nr;
+    return { arc: { centerX: cr * 2, centerZ: cz, radius, direction } };
+  }
+
+  if (params.I === undefined && params.K === undefined) {
+    return { error: `Error Arco: falta R o I/K en línea ${line}` };
+  }
+
+  const cr = sr + (params.I ?? 0);
+  const cz = sz + (params.K ?? 0);
+  const startRadius = Math.sqrt((sr - cr) * (sr - cr) + (sz - cz) * (sz - cz));
+  const endRadius = Math.sqrt((er - cr) * (er - cr) + (ez - cz) * (ez - cz));
+
+  if (Math.abs(startRadius - endRadius) > ARC_RADIUS_TOLERANCE) {
+    return { error: `Error Arco: radio inicial ${startRadius.toFixed(3)} y final ${endRadius.toFixed(3)} no coinciden en línea ${line}` };
+  }
+
+  return { arc: { centerX: cr * 2, centerZ: cz, radius: startRadius, direction } };
+};
+
+/**
+ * Returns the start angle and the signed sweep (radians, positive = CCW)
+ * of an arc, measured in the (Z, radius) plane around its center.
+ */
+export const arcSweep = (start: { x: number; z: number }, end: { x: number; z: number }, arc: ArcData) => {
+  const cr = arc.centerX / 2;
+  const startAngle = Math.atan2(start.x / 2 - cr, start.z - arc.centerZ);
+  const endAngle = Math.atan2(end.x / 2 - cr, end.z - arc.centerZ);
+  const TWO_PI = Math.PI * 2;
+
+  let sweep = arc.direction === 'CCW' ? endAngle - startAngle : startAngle - endAngle;
+  while (sweep <= 1e-9) sweep += TWO_PI;
+  while (sweep > TWO_PI + 1e-9) sweep -= TWO_PI;
+
+  return { startAngle, sweep: arc.direction === 'CCW' ? sweep : -sweep };
+};
+
+/**
+ * Tessellates an arc into points no further than `maxStep` mm apart.
+ * The start point is excluded and the end point is included, so the result
+ * can be appended directly after the previous path point.
+ */
+export const sampleArc = (
+  start: { x: number; z: number },
+  end: { x: number; z: number },
+  arc: ArcData,
+  maxStep = 0.5
+): { x: number; z: number }[] => {
+  const { startAngle, sweep } = arcSweep(start, end, arc);
+  const cr = arc.centerX / 2;
+  const steps = Math.max(2, Math.ceil(Math.abs(sweep) * arc.radius / maxStep));
+  const points: { x: number; z: number }[] = [];
+
+  for (let i = 1; i < steps; i++) {
+    const a = startAngle + (sweep * i) / steps;
+    points.push({ x: (cr + Math.sin(a) * arc.radius) * 2, z: arc.centerZ + Math.cos(a) * arc.radius });
+  }
+  points.push({ x: end.x, z: end.z });
+  return points;
+};
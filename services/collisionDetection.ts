@@ -0,0 +1,114 @@
+import { PathSegment, StockProfile, ThreadData, ToolConfig } from '../types';
+import { sampleArc } from './arcInterpolation';
+
+export type CollisionBody = 'STOCK' | 'HOLDER' | 'JAW' | 'CHUCK';
+
+export interface Collision {
+  body: CollisionBody;
+  x: number; // Tool tip position where the collision was found
+  z: number;
+}
+
+export const COLLISION_DESCRIPTIONS: Record<CollisionBody, string> = {
+  STOCK: 'avance rápido (G00) dentro del material',
+  HOLDER: 'el portaherramientas roza la pieza',
+  JAW: 'la herramienta choca con las garras del plato',
+  CHUCK: 'la herramienta choca con el cuerpo del plato'
+};
+
+/**
+ * Holder envelope relative to the tool tip: the shank starts `gap` mm above the
+ * tip (radius) and spans from zFrom to zTo along Z. Grooving blades are long and
+ * narrow, so their holder only starts well above the tip.
+ */
+const HOLDER_ENVELOPE: Record<ToolConfig['type'], { gap: number; zFrom: number; zTo: number }> = {
+  general: { gap: 6, zFrom: 3, zTo: 30 },
+  grooving: { gap: 32, zFrom: -5, zTo: 20 },
+  threading: { gap: 4, zFrom: 3, zTo: 30 }
+};
+
+// Chuck geometry (mm), measured from the back end of the stock
+const JAW_GRIP = 8; // Length of stock held inside the jaws
+const JAW_HEIGHT = 15; // Radial height of the jaws above the bar
+const CHUCK_FACE_GAP = 5; // Distance from the back of the stock to the chuck face
+const CHUCK_EXTRA_RADIUS = 40; // Chuck body radius beyond the bar radius
+
+const TOLERANCE = 0.01;
+const SAMPLE_STEP = 1; // mm between checked positions along a segment
+
+// True if any stock sample within [zMin, zMax] is above `radius`
+const stockAbove = (stock: StockProfile, zMin: number, zMax: number, radius: number) => {
+  const from = Math.max(0, Math.ceil(-zMax / stock.resolution));
+  const to = Math.min(stock.radii.length - 1, Math.floor(-zMin / stock.resolution));
+  for (let i = from; i <= to; i++) {
+    if (stock.radii[i] > radius + TOLERANCE) return true;
+  }
+  return false;
+};
+
+/**
+ * Checks one path segment against the remaining stock, the chuck jaws and body,
+ * and the holder of the tool making the move.
+ *
+ * `before` is the stock as the segment starts; `after` is the stock once the
+ * segment has cut. Rapids are tested against `before` (they never cut) while the
+ * holder is tested against `after`, since it trails behind the cutting edge.
+ * Threading passes leave the stock model untouched, so rapids inside the groove
+ * of a thread (down to its minor diameter) are not flagged.
+ */
+export const checkSegment = (
+  from: { x: number; z: number },
+  segment: PathSegment,
+  tool: ToolConfig | undefined,
+  before: StockProfile,
+  after: StockProfile,
+  threads: ThreadData[] = []
+): Collision | null => {
+  const x = segment.cx !== undefined ? segment.cx : segment.x;
+  const z = segment.cz !== undefined ? segment.cz : segment.z;
+
+  // Sample positions along the move (arcs are followed, not chorded)
+  const arc = segment.compArc ?? segment.arc;
+  const targets = arc ? sampleArc(from, { x, z }, arc, SAMPLE_STEP) : [{ x, z }];
+  const positions: { x: number; z: number }[] = [];
+  let prev = from;
+  targets.forEach(t => {
+    const len = Math.sqrt((t.z - prev.z) ** 2 + ((t.x - prev.x) / 2) ** 2);
+    const steps = Math.max(1, Math.ceil(len / SAMPLE_STEP));
+    for (let s = 1; s <= steps; s++) {
+      positions.push({ x: prev.x + ((t.x - prev.x) * s) / steps, z: prev.z + ((t.z - prev.z) * s) / steps });
+    }
+    prev = t;
+  });
+
+  const barRadius = before.diameter / 2;
+  const jawFaceZ = -before.length + JAW_GRIP;
+  const chuckFaceZ = -before.length - CHUCK_FACE_GAP;
+  const holder = tool ? HOLDER_ENVELOPE[tool.type] : null;
+
+  for (const p of positions) {
+    const r = p.x / 2;
+
+    if (p.z < chuckFaceZ && r < barRadius + CHUCK_EXTRA_RADIUS) return { body: 'CHUCK', ...p };
+    if (p.z < jawFaceZ && r < barRadius + JAW_HEIGHT) return { body: 'JAW', ...p };
+
+    const halfStep = before.resolution / 2;
+    const inGroove = threads.some(th =>
+      p.z <= Math.max(th.zStart, th.zEnd) + TOLERANCE &&
+      p.z >= Math.min(th.zStart, th.zEnd) - TOLERANCE &&
+      r >= th.minorDiameter / 2 - TOLERANCE
+    );
+    if (segment.type === 'rapid' && !inGroove && stockAbove(before, p.z - halfStep, p.z + halfStep, r)) return { body: 'STOCK', ...p };
+
+    if (holder) {
+      const zMin = p.z + holder.zFrom;
+      const zMax = p.z + holder.zTo;
+      const bottom = r + holder.gap;
+      if (zMin < chuckFaceZ && bottom < barRadius + CHUCK_EXTRA_RADIUS) return { body: 'CHUCK', ...p };
+      if (zMin < jawFaceZ && bottom < barRadius + JAW_HEIGHT) return { body: 'JAW', ...p };
+      if (stockAbove(after, zMin, zMax, bottom)) return { body: 'HOLDER', ...p };
+    }
+  }
+
+  return null;
+};
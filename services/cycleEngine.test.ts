@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { PathSegment } from '../types';
+import { expandPeckCycle, expandRoughingCycle, expandThreadingCycle } from './cycleEngine';
+import { parseGCode, parseProgram } from './gcodeParser';
+
+// Retract moves of a roughing cycle: the 45° feed move that leaves each level, paired with the cut it ends
+const retracts = (path: PathSegment[]) =>
+  path.flatMap((seg, i) => {
+    const prev = path[i - 1];
+    return i > 0 && seg.type === 'cut' && prev.type === 'cut' && seg.x !== prev.x && seg.z !== prev.z ? [{ cut: prev, retract: seg }] : [];
+  });
+
+describe('expandRoughingCycle', () => {
+  it('G71 retracts away from the part when cutting towards -Z', () => {
+    const profile = parseGCode('G00 X20\nG01 Z-30\nX40');
+    const { path, error } = expandRoughingCycle(71, { U: 2, R: 0.5 }, { P: 1, Q: 3 }, profile, { x: 42, z: 2 }, 1);
+    expect(error).toBeUndefined();
+    const moves = retracts(path);
+    expect(moves.length).toBeGreaterThan(0);
+    moves.forEach(({ cut, retract }) => expect(retract.z).toBeCloseTo(cut.z + 0.5));
+  });
+
+  it('G71 retracts away from the part when cutting towards +Z', () => {
+    const profile = parseGCode('G00 X20\nG01 Z-10\nX40');
+    const { path, error } = expandRoughingCycle(71, { U: 2, R: 0.5 }, { P: 1, Q: 3 }, profile, { x: 42, z: -40 }, 1);
+    expect(error).toBeUndefined();
+    const moves = retracts(path);
+    expect(moves.length).toBeGreaterThan(0);
+    moves.forEach(({ cut, retract }) => expect(retract.z).toBeCloseTo(cut.z - 0.5));
+  });
+
+  it('G72 retracts away from the part when cutting towards +X', () => {
+    const profile = parseGCode('G00 Z-10\nG01 X30\nZ2');
+    const { path, error } = expandRoughingCycle(72, { W: 2, R: 0.5 }, { P: 1, Q: 3 }, profile, { x: 0, z: 2 }, 1);
+    expect(error).toBeUndefined();
+    const moves = retracts(path);
+    expect(moves.length).toBeGreaterThan(0);
+    moves.forEach(({ cut, retract }) => expect(retract.x).toBeCloseTo(cut.x - 1));
+  });
+});
+
+describe('expandThreadingCycle', () => {
+  it('keeps the thread length of every pass as the infeed moves along the flank', () => {
+    const { path, error } = expandThreadingCycle({ P: 10060, Q: 50, R: 0.05 }, { X: 18.2, Z: -20, P: 900, Q: 300, F: 1.5 }, { x: 22, z: 4 }, 1);
+    expect(error).toBeUndefined();
+    const passes = path.flatMap((seg, i) => (seg.type === 'cut' ? [{ from: path[i - 1], to: seg }] : []));
+    expect(passes.length).toBeGreaterThan(2);
+    expect(passes[passes.length - 1].from.z).toBeGreaterThan(passes[0].from.z);
+    passes.forEach(({ from, to }) => expect(from.z - to.z).toBeCloseTo(24));
+  });
+});
+
+describe('expandPeckCycle', () => {
+  it('raises an alarm for a negative G75 peck depth P', () => {
+    const { path, error } = expandPeckCycle(75, { R: 0.5 }, { X: 20, P: -500, F: 0.05 }, { x: 42, z: -10 }, undefined, 4);
+    expect(path).toEqual([]);
+    expect(error).toBe('Error Ciclo G75: P negativo, debe ser un incremento positivo en línea 4');
+  });
+
+  it('raises an alarm for a negative G74 peck depth Q', () => {
+    const { error } = expandPeckCycle(74, { R: 0.5 }, { Z: -10, Q: -500, F: 0.05 }, { x: 0, z: 2 }, undefined, 4);
+    expect(error).toBe('Error Ciclo G74: Q negativo, debe ser un incremento positivo en línea 4');
+  });
+
+  it('raises an alarm for a negative G75 step Q', () => {
+    const { error } = expandPeckCycle(75, {}, { X: 20, Z: -14, P: 500, Q: -100, F: 0.05 }, { x: 42, z: -10 }, 3, 4);
+    expect(error).toBe('Error Ciclo G75: Q negativo, debe ser un incremento positivo en línea 4');
+  });
+
+  it('flags a negative literal P or Q on a G74/G75 block in the parser', () => {
+    const { diagnostics } = parseProgram('G75 R0.5\nG75 X20 P-500 F0.05');
+    expect(diagnostics).toEqual([expect.objectContaining({ severity: 'error', code: 'CYCLE_VALUE', line: 2, startColumn: 9, endColumn: 14 })]);
+  });
+});
@@ -0,0 +1,391 @@
+import { GCodeCommand, PathSegment, ThreadData } from '../types';
+import { resolveArc, sampleArc } from './arcInterpolation';
+
+type Point = { x: number; z: number };
+
+export interface CycleResult {
+  path: PathSegment[];
+  error?: string;
+}
+
+export interface ThreadCycleResult extends CycleResult {
+  thread?: ThreadData;
+}
+
+// Safety limit so a tiny depth of cut cannot lock the interpreter
+const MAX_PASSES = 500;
+
+/**
+ * Interprets the blocks of a P–Q profile into path segments, starting from
+ * the cycle start point. Blocks without a motion code were already resolved
+ * to the modal one by the parser; X/Z are absolute and U/W incremental.
+ */
+export const buildProfile = (profile: GCodeCommand[], start: Point): CycleResult => {
+  const path: PathSegment[] = [];
+  let x = start.x;
+  let z = start.z;
+
+  for (const cmd of profile) {
+    if (cmd.type !== 'G' || cmd.code === undefined || ![0, 1, 2, 3].includes(cmd.code)) continue;
+    const motion = cmd.code;
+
+    const from = { x, z };
+    if (cmd.params.X !== undefined) x = cmd.params.X;
+    if (cmd.params.U !== undefined) x += cmd.params.U;
+    if (cmd.params.Z !== undefined) z = cmd.params.Z;
+    if (cmd.params.W !== undefined) z += cmd.params.W;
+    if (x === from.x && z === from.z) continue;
+
+    const segment: PathSegment = { x, z, type: motion === 0 ? 'rapid' : 'cut' };
+    if (motion === 2 || motion === 3) {
+      const resolved = resolveArc(from, { x, z }, cmd.params, motion === 2 ? 'CW' : 'CCW', cmd.line);
+      if (resolved.error) return { path, error: resolved.error };
+      segment.arc = resolved.arc;
+    }
+    path.push(segment);
+  }
+
+  return { path };
+};
+
+/**
+ * Moves every segment of a profile (arc centers included) by dx (diameter) and dz.
+ */
+export const shiftProfile = (profile: PathSegment[], dx: number, dz: number): PathSegment[] =>
+  profile.map(p => ({
+    ...p,
+    x: p.x + dx,
+    z: p.z + dz,
+    arc: p.arc ? { ...p.arc, centerX: p.arc.centerX + dx, centerZ: p.arc.centerZ + dz } : undefined
+  }));
+
+// Flattens a profile into a polyline (arcs tessellated), starting at `start`
+const toPolyline = (start: Point, profile: PathSegment[]): Point[] => {
+  const points: Point[] = [start];
+  profile.forEach(p => {
+    const from = points[points.length - 1];
+    if (p.arc) points.push(...sampleArc(from, p, p.arc));
+    else points.push({ x: p.x, z: p.z });
+  });
+  return points;
+};
+
+// Returns the crossings of the closed polygon with the line `axis = value`, as the other coordinate
+const scanline = (polygon: Point[], axis: 'x' | 'z', value: number): number[] => {
+  const other = axis === 'x' ? 'z' : 'x';
+  const hits: number[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    if ((a[axis] <= value && b[axis] > value) || (b[axis] <= value && a[axis] > value)) {
+      const t = (value - a[axis]) / (b[axis] - a[axis]);
+      hits.push(a[other] + t * (b[other] - a[other]));
+    }
+  }
+  return hits;
+};
+
+/**
+ * Expands a G71 (longitudinal), G72 (facing) or G73 (pattern repeat) roughing
+ * cycle into individual passes.
+ *
+ * - `setup` is the first block: G71 U(depth) R(retract), G72 W(depth) R(retract),
+ *   G73 U(X relief) W(Z relief) R(divisions).
+ * - `cycle` is the second block: P Q U(X allowance, diameter) W(Z allowance).
+ *
+ * G71/G72 behave as Type I cycles: each level is cut from the start side up to
+ * the first crossing with the profile, retracted at 45° by R, and a final pass
+ * follows the profile with the finishing allowance left on. The tool returns
+ * to the start point at the end.
+ */
+export const expandRoughingCycle = (
+  code: number,
+  setup: Record<string, number>,
+  cycle: Record<string, number>,
+  profile: GCodeCommand[],
+  start: Point,
+  line: number
+): CycleResult => {
+  const built = buildProfile(profile, start);
+  if (built.error) return built;
+  if (built.path.length === 0) {
+    return { path: [], error: `Error Ciclo G${code}: perfil P${cycle.P}-Q${cycle.Q} sin movimientos en línea ${line}` };
+  }
+
+  const allowanceX = cycle.U ?? 0;
+  const allowanceZ = cycle.W ?? 0;
+  const path: PathSegment[] = [];
+
+  if (code === 73) {
+    const reliefX = (setup.U ?? 0) * 2;
+    const reliefZ = setup.W ?? 0;
+    const divisions = Math.max(1, Math.round(setup.R ?? 1));
+    if (divisions > MAX_PASSES) {
+      return { path: [], error: `Error Ciclo G73: demasiadas divisiones R${setup.R} en línea ${line}` };
+    }
+
+    for (let k = 1; k <= divisions; k++) {
+      const factor = divisions === 1 ? 0 : (divisions - k) / (divisions - 1);
+      const pass = shiftProfile(built.path, allowanceX + reliefX * factor, allowanceZ + reliefZ * factor);
+      // The approach into the shifted profile keeps the motion type of block P
+      path.push(...pass);
+      path.push({ x: start.x, z: start.z, type: 'rapid' });
+    }
+    return { path };
+  }
+
+  const depth = code === 71 ? setup.U : setup.W;
+  const retract = setup.R ?? 0.5;
+  if (depth === undefined || depth <= 0) {
+    return { path: [], error: `Error Ciclo G${code}: profundidad de pasada ${code === 71 ? 'U' : 'W'} no válida en línea ${line}` };
+  }
+
+  const finish = shiftProfile(built.path, allowanceX, allowanceZ);
+  const polygon = toPolyline(start, finish);
+
+  if (code === 71) {
+    // Levels are stepped in X (diameter), towards the far side of the profile
+    const xs = polygon.map(p => p.x);
+    const dir = Math.min(...xs) < start.x ? -1 : 1;
+    const limit = dir < 0 ? Math.min(...xs) : Math.max(...xs);
+    const step = depth * 2;
+    // Each level is cut along Z away from the start point, towards the profile
+    const cutDir = Math.min(...polygon.map(p => p.z)) < start.z ? -1 : 1;
+
+    for (let k = 1; k <= MAX_PASSES; k++) {
+      const level = start.x + dir * step * k;
+      if ((dir < 0 && level <= limit) || (dir > 0 && level >= limit)) break;
+
+      const hits = scanline(polygon, 'x', level).sort((a, b) => cutDir * (a - b));
+      if (hits.length < 2) continue;
+      const zStart = cutDir < 0 ? Math.min(start.z, hits[0]) : Math.max(start.z, hits[0]);
+      const zEnd = hits[1];
+
+      path.push({ x: level, z: start.z, type: 'rapid' });
+      if (zStart !== start.z) path.push({ x: level, z: zStart, type: 'rapid' });
+      path.push({ x: level, z: zEnd, type: 'cut' });
+      path.push({ x: level - dir * retract * 2, z: zEnd - cutDir * retract, type: 'cut' });
+      path.push({ x: level - dir * retract * 2, z: start.z, type: 'rapid' });
+    }
+  } else {
+    // G72: levels are stepped in Z, cutting across X
+    const zs = polygon.map(p => p.z);
+    const dir = Math.min(...zs) < start.z ? -1 : 1;
+    const limit = dir < 0 ? Math.min(...zs) : Math.max(...zs);
+    // Each level is cut along X away from the start point, towards the profile
+    const cutDir = Math.min(...polygon.map(p => p.x)) < start.x ? -1 : 1;
+
+    for (let k = 1; k <= MAX_PASSES; k++) {
+      const level = start.z + dir * depth * k;
+      if ((dir < 0 && level <= limit) || (dir > 0 && level >= limit)) break;
+
+      const hits = scanline(polygon, 'z', level).sort((a, b) => cutDir * (a - b));
+      if (hits.length < 2) continue;
+      const xStart = cutDir < 0 ? Math.min(start.x, hits[0]) : Math.max(start.x, hits[0]);
+      const xEnd = hits[1];
+
+      path.push({ x: start.x, z: level, type: 'rapid' });
+      if (xStart !== start.x) path.push({ x: xStart, z: level, type: 'rapid' });
+      path.push({ x: xEnd, z: level, type: 'cut' });
+      path.push({ x: xEnd - cutDir * retract * 2, z: level - dir * retract, type: 'cut' });
+      path.push({ x: start.x, z: level - dir * retract, type: 'rapid' });
+    }
+  }
+
+  // Semi-finishing pass along the profile, leaving the U/W allowance
+  path.push({ x: start.x, z: start.z, type: 'rapid' });
+  path.push(...finish);
+  path.push({ x: start.x, z: start.z, type: 'rapid' });
+  return { path };
+};
+
+/**
+ * Expands a two-block Fanuc G76 threading cycle into its infeed passes.
+ *
+ * - `setup` is the first block: P(m r a) Q(minimum depth, µm) R(finish allowance, mm),
+ *   where m = finishing passes, r = chamfer-out in tenths of the lead, a = tool angle.
+ * - `cycle` is the second block: X/U Z/W R(taper, radius) P(thread height, µm)
+ *   Q(first depth, µm) F(lead).
+ *
+ * Depths follow the constant-volume rule (first depth × √n), never less than the
+ * minimum depth, and each pass is shifted along the flank by half the tool angle.
+ */
+export const expandThreadingCycle = (
+  setup: Record<string, number>,
+  cycle: Record<string, number>,
+  start: Point,
+  line: number
+): ThreadCycleResult => {
+  const pWord = Math.round(setup.P ?? 10060);
+  const springPasses = Math.max(1, Math.floor(pWord / 10000));
+  const chamferTenths = Math.floor(pWord / 100) % 100;
+  const angle = pWord % 100;
+  const minDepth = (setup.Q ?? 0) / 1000;
+  const finishAllowance = setup.R ?? 0;
+
+  const xEnd = cycle.X !== undefined ? cycle.X : start.x + (cycle.U ?? 0);
+  const zEnd = cycle.Z !== undefined ? cycle.Z : start.z + (cycle.W ?? 0);
+  const taper = cycle.R ?? 0;
+  const height = (cycle.P ?? 0) / 1000;
+  const firstDepth = (cycle.Q ?? 0) / 1000;
+  const lead = cycle.F ?? 0;
+
+  if (height <= 0 || firstDepth <= 0) {
+    return { path: [], error: `Error Ciclo G76: altura P o primera pasada Q no válidas en línea ${line}` };
+  }
+  if (lead <= 0) {
+    return { path: [], error: `Error Ciclo G76: paso F no programado en línea ${line}` };
+  }
+  if (finishAllowance >= height) {
+    return { path: [], error: `Error Ciclo G76: sobremedida R${finishAllowance} mayor que la altura de rosca en línea ${line}` };
+  }
+
+  // Cumulative radial depth of each pass
+  const depths: number[] = [];
+  const roughLimit = height - finishAllowance;
+  let previous = 0;
+  for (let n = 1; n <= MAX_PASSES; n++) {
+    let depth = firstDepth * Math.sqrt(n);
+    if (depth - previous < minDepth) depth = previous + minDepth;
+    if (depth >= roughLimit) break;
+    depths.push(depth);
+    previous = depth;
+  }
+  if (finishAllowance > 0 || depths.length === 0) depths.push(roughLimit);
+  for (let m = 0; m < springPasses; m++) depths.push(height);
+
+  const dirZ = zEnd < start.z ? -1 : 1;
+  const flank = Math.tan(((angle / 2) * Math.PI) / 180);
+  const chamfer = (chamferTenths / 10) * lead;
+  const path: PathSegment[] = [];
+
+  depths.forEach(depth => {
+    const xPassEnd = xEnd + 2 * (height - depth);
+    const xPassStart = xPassEnd + 2 * taper;
+    // The whole pass moves along the flank, so every pass cuts the same thread length
+    const shift = dirZ * depth * flank;
+    const zPassStart = start.z - shift;
+    const zPassEnd = zEnd - shift;
+
+    path.push({ x: xPassStart, z: zPassStart, type: 'rapid' });
+    if (chamfer > 0) {
+      const zChamfer = zPassEnd - dirZ * chamfer;
+      const t = (zChamfer - zPassStart) / (zPassEnd - zPassStart);
+      const xChamfer = xPassStart + (xPassEnd - xPassStart) * t;
+      path.push({ x: xChamfer, z: zChamfer, type: 'cut' });
+      path.push({ x: xChamfer + 2 * chamfer, z: zPassEnd, type: 'cut' });
+    } else {
+      path.push({ x: xPassEnd, z: zPassEnd, type: 'cut' });
+    }
+    path.push({ x: start.x, z: zPassEnd, type: 'rapid' });
+    path.push({ x: start.x, z: start.z, type: 'rapid' });
+  });
+
+  return {
+    path,
+    thread: {
+      zStart: start.z,
+      zEnd,
+      majorDiameter: xEnd + 2 * height,
+      minorDiameter: xEnd,
+      lead,
+      angle
+    }
+  };
+};
+
+/**
+ * Expands a two-block G74 (face pecking / deep drilling) or G75 (grooving) cycle.
+ *
+ * - `setup` is the first block: R(retract after each peck).
+ * - `cycle` is the second block: X/U Z/W P Q R(bottom relief) F. For G75, P is the
+ *   X peck depth and Q the Z step; for G74, Q is the Z peck depth and P the X step.
+ *   P and Q are radius values in µm.
+ *
+ * Each peck is its own cut segment followed by a rapid retract, so the retracts show
+ * in the path. When the cycle steps across the other axis, the step may not exceed
+ * the tool width or material would be left between plunges.
+ */
+export const expandPeckCycle = (
+  code: number,
+  setup: Record<string, number>,
+  cycle: Record<string, number>,
+  start: Point,
+  toolWidth: number | undefined,
+  line: number
+): CycleResult => {
+  const end: Point = {
+    x: cycle.X !== undefined ? cycle.X : start.x + (cycle.U ?? 0),
+    z: cycle.Z !== undefined ? cycle.Z : start.z + (cycle.W ?? 0)
+  };
+  const peckAxis: 'x' | 'z' = code === 75 ? 'x' : 'z';
+  const stepAxis: 'x' | 'z' = code === 75 ? 'z' : 'x';
+  // X words are diameters while P, Q and R are radius values
+  const scale = (axis: 'x' | 'z') => (axis === 'x' ? 2 : 1);
+
+  const peckWord = code === 75 ? cycle.P : cycle.Q;
+  const stepWord = code === 75 ? cycle.Q : cycle.P;
+  const peckTotal = Math.abs(end[peckAxis] - start[peckAxis]);
+  const stepTotal = Math.abs(end[stepAxis] - start[stepAxis]);
+  const peck = peckWord ? (peckWord / 1000) * scale(peckAxis) : peckTotal;
+  const step = stepWord ? (stepWord / 1000) * scale(stepAxis) : 0;
+  const retract = (setup.R ?? 0) * scale(peckAxis);
+  const relief = (cycle.R ?? 0) * scale(stepAxis);
+
+  // A negative P or Q would step backwards and never reach the end
+  if ((peckWord ?? 0) < 0 || (stepWord ?? 0) < 0) {
+    const word = (peckWord ?? 0) < 0 ? (code === 75 ? 'P' : 'Q') : (code === 75 ? 'Q' : 'P');
+    return { path: [], error: `Error Ciclo G${code}: ${word} negativo, debe ser un incremento positivo en línea ${line}` };
+  }
+  if (peckTotal < 0.001) {
+    return { path: [], error: `Error Ciclo G${code}: sin profundidad en ${peckAxis.toUpperCase()} en línea ${line}` };
+  }
+  if (stepTotal > 0.001) {
+    if (step <= 0) {
+      return { path: [], error: `Error Ciclo G${code}: falta el paso ${code === 75 ? 'Q' : 'P'} para desplazar en ${stepAxis.toUpperCase()} en línea ${line}` };
+    }
+    const stepMm = step / scale(stepAxis);
+    if (toolWidth !== undefined && stepMm > toolWidth) {
+      return { path: [], error: `Error Ciclo G${code}: paso ${stepMm.toFixed(3)} mayor que el ancho de herramienta ${toolWidth.toFixed(3)} en línea ${line}` };
+    }
+  }
+  if (peckTotal / peck > MAX_PASSES || (step > 0 && stepTotal / step > MAX_PASSES)) {
+    return { path: [], error: `Error Ciclo G${code}: demasiadas pasadas en línea ${line}` };
+  }
+
+  const peckDir = Math.sign(end[peckAxis] - start[peckAxis]);
+  const stepDir = Math.sign(end[stepAxis] - start[stepAxis]);
+  const positions: number[] = [start[stepAxis]];
+  if (stepTotal > 0.001) {
+    for (let s = step; s < stepTotal - 0.001; s += step) positions.push(start[stepAxis] + stepDir * s);
+    positions.push(end[stepAxis]);
+  }
+
+  const at = (peckValue: number, stepValue: number): Point =>
+    peckAxis === 'x' ? { x: peckValue, z: stepValue } : { x: stepValue, z: peckValue };
+  const path: PathSegment[] = [];
+
+  positions.forEach((position, index) => {
+    if (index > 0) path.push({ ...at(start[peckAxis], position), type: 'rapid' });
+
+    let depth = 0;
+    while (depth < peckTotal - 0.001) {
+      depth = Math.min(peckTotal, depth + peck);
+      path.push({ ...at(start[peckAxis] + peckDir * depth, position), type: 'cut' });
+      if (depth < peckTotal - 0.001 && retract > 0) {
+        path.push({ ...at(start[peckAxis] + peckDir * (depth - retract), position), type: 'rapid' });
+      }
+    }
+
+    let exitPosition = position;
+    if (relief > 0 && index < positions.length - 1) {
+      exitPosition = position - stepDir * relief;
+      path.push({ ...at(end[peckAxis], exitPosition), type: 'cut' });
+    }
+    path.push({ ...at(start[peckAxis], exitPosition), type: 'rapid' });
+  });
+
+  const last = path[path.length - 1];
+  if (!last || last.x !== start.x || last.z !== start.z) path.push({ x: start.x, z: start.z, type: 'rapid' });
+  return { path };
+};
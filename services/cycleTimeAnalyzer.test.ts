@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { TOOLS } from '../constants';
+import { TOOL_INDEX_TIME, analyzeCycleTime } from './cycleTimeAnalyzer';
+import { parseGCode } from './gcodeParser';
+import { MachineConfig } from './simulationKernel';
+
+const MACHINE: MachineConfig = { home: { x: 100, z: 50 }, stockDiameter: 40, stockLength: 150, material: 'Steel' };
+
+const analyze = (code: string) => analyzeCycleTime(parseGCode(code), MACHINE, TOOLS, { rapidRate: 8000 });
+
+describe('analyzeCycleTime', () => {
+  it('charges indexing only for real tool changes', () => {
+    expect(analyze('T0101\nG00 X50 Z5\nG28 U0 W0\nM30').toolChange).toBe(0);
+    expect(analyze('T0101\nG28 U0 W0\nT0202\nG28 U0 W0\nT0202\nM30').toolChange).toBe(TOOL_INDEX_TIME);
+  });
+
+  it('splits the time by the tool in effect', () => {
+    const report = analyze('G98\nT0101\nG00 X42 Z2\nG01 Z-10 F600\nG28 U0 W0\nT0202\nG04 P500\nM30');
+    expect(report.tools.map(t => t.tool)).toEqual(['T0101', 'T0202']);
+    expect(report.cutting).toBeCloseTo(1.2); // 12 mm at 600 mm/min
+    expect(report.dwell).toBeCloseTo(0.5);
+    expect(report.tools[1].nonCutting).toBeCloseTo(TOOL_INDEX_TIME + 0.5);
+    expect(report.total).toBeCloseTo(report.cutting + report.nonCutting);
+  });
+});
@@ -0,0 +1,98 @@
+import { GCodeCommand, ToolConfig } from '../types';
+import { endPoint, segmentDuration } from './motionPlanner';
+import { MachineConfig, simulateProgram } from './simulationKernel';
+
+/** Seconds the turret takes to index to a different tool */
+export const TOOL_INDEX_TIME = 2;
+
+export interface ToolTime {
+  tool: string; // T word in effect, e.g. T0101
+  cutting: number; // Seconds
+  nonCutting: number;
+}
+
+export interface CycleTimeReport {
+  total: number; // Seconds
+  cutting: number; // Feed moves, including the cuts of canned cycles
+  nonCutting: number; // Rapids, dwells and tool indexing
+  rapid: number;
+  dwell: number;
+  toolChange: number;
+  tools: ToolTime[]; // In order of first use
+  error?: string;
+}
+
+export interface CycleTimeOptions {
+  rapidRate: number; // mm/min
+  toolIndexTime?: number;
+}
+
+const toolLabel = (tool: number, offset: number) => `T${String(tool).padStart(2, '0')}${String(offset).padStart(2, '0')}`;
+
+/**
+ * Estimates the cycle time of a program from the path the simulation kernel
+ * lays out, so work offsets, G50, tool offsets, cycles, macros and
+ * subprograms count exactly as the simulator runs them. Each segment takes
+ * its length at the feed the kernel gave it (G98/G99 and G96 resolved), rapids
+ * go at the rapid rate. Times are at 100% feed override; an alarm leaves the
+ * estimate up to the block that raised it.
+ */
+export const analyzeCycleTime = (commands: GCodeCommand[], machine: MachineConfig, tools: ToolConfig[], options: CycleTimeOptions): CycleTimeReport => {
+  const indexTime = options.toolIndexTime ?? TOOL_INDEX_TIME;
+  const report: CycleTimeReport = { total: 0, cutting: 0, nonCutting: 0, rapid: 0, dwell: 0, toolChange: 0, tools: [] };
+  const result = simulateProgram(commands, machine, tools);
+
+  // Moves before the first T word are charged to an unnamed entry
+  const unassigned: ToolTime = { tool: '—', cutting: 0, nonCutting: 0 };
+  let current = unassigned;
+  let toolNumber = -1; // None loaded yet: the first T word costs no indexing
+  let pathStart = 0;
+
+  const toolTime = (label: string) => {
+    let entry = report.tools.find(t => t.tool === label);
+    if (!entry) {
+      entry = { tool: label, cutting: 0, nonCutting: 0 };
+      report.tools.push(entry);
+    }
+    return entry;
+  };
+
+  const addNonCutting = (seconds: number) => {
+    current.nonCutting += seconds;
+    report.nonCutting += seconds;
+  };
+
+  for (const state of result.states) {
+    const cmd = commands[state.index];
+    if (cmd.type === 'T' && cmd.code) {
+      current = toolTime(toolLabel(state.tool, state.offsetNumber));
+      if (toolNumber !== -1 && state.tool !== toolNumber) {
+        report.toolChange += indexTime;
+        addNonCutting(indexTime);
+      }
+      toolNumber = state.tool;
+    }
+
+    for (let k = pathStart; k < state.pathEnd; k++) {
+      const seg = result.path[k];
+      const from = k > 0 ? endPoint(result.path[k - 1]) : { ...machine.home, cx: machine.home.x, cz: machine.home.z };
+      const seconds = segmentDuration(from, seg, options.rapidRate);
+      if (seg.type === 'cut') {
+        current.cutting += seconds;
+        report.cutting += seconds;
+      } else {
+        report.rapid += seconds;
+        addNonCutting(seconds);
+      }
+    }
+    pathStart = state.pathEnd;
+
+    report.dwell += state.dwell;
+    addNonCutting(state.dwell);
+  }
+
+  if (result.alarm) report.error = result.alarm.message;
+  report.total = report.cutting + report.nonCutting;
+  if (unassigned.cutting + unassigned.nonCutting > 0) report.tools.unshift(unassigned);
+  return report;
+};
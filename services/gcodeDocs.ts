@@ -0,0 +1,131 @@
+import { LESSONS } from '../constants';
+
+/** Syntax card for a G/M code, taken from the lesson that teaches it */
+export interface CodeDoc {
+  code: string; // Normalized, e.g. G01, M100
+  title: string; // Heading or bullet that introduces the code
+  description: string;
+  syntax: string[]; // Example blocks from the lesson
+  lessonTitle?: string;
+}
+
+export interface CodeCompletion {
+  code: string;
+  label: string;
+  template: string; // Text inserted in place of the typed word; blocks separated by \n
+}
+
+/** One entry per code the simulator runs; cycles insert both of their blocks */
+export const CODE_COMPLETIONS: CodeCompletion[] = [
+  { code: 'G00', label: 'Posicionamiento rápido', template: 'G00 X50 Z2' },
+  { code: 'G01', label: 'Interpolación lineal', template: 'G01 X40 Z-20 F0.2' },
+  { code: 'G02', label: 'Arco horario (CW)', template: 'G02 X30 Z-15 R5' },
+  { code: 'G03', label: 'Arco antihorario (CCW)', template: 'G03 X50 Z-25 R10' },
+  { code: 'G04', label: 'Pausa', template: 'G04 X1.0' },
+  { code: 'G18', label: 'Plano ZX', template: 'G18' },
+  { code: 'G20', label: 'Pulgadas', template: 'G20' },
+  { code: 'G21', label: 'Milímetros', template: 'G21' },
+  { code: 'G28', label: 'Retorno a referencia', template: 'G28 U0 W0' },
+  { code: 'G32', label: 'Roscado paso a paso', template: 'G32 Z-20 F2.0' },
+  { code: 'G40', label: 'Cancelar compensación de radio', template: 'G40' },
+  { code: 'G41', label: 'Compensación a la izquierda', template: 'G41' },
+  { code: 'G42', label: 'Compensación a la derecha', template: 'G42' },
+  { code: 'G50', label: 'Preajuste de coordenadas / límite de RPM', template: 'G50 S2000' },
+  { code: 'G54', label: 'Origen de pieza 1', template: 'G54' },
+  { code: 'G55', label: 'Origen de pieza 2', template: 'G55' },
+  { code: 'G56', label: 'Origen de pieza 3', template: 'G56' },
+  { code: 'G57', label: 'Origen de pieza 4', template: 'G57' },
+  { code: 'G58', label: 'Origen de pieza 5', template: 'G58' },
+  { code: 'G59', label: 'Origen de pieza 6', template: 'G59' },
+  { code: 'G70', label: 'Ciclo de acabado', template: 'G70 P70 Q110' },
+  { code: 'G71', label: 'Desbaste longitudinal', template: 'G71 U2 R1\nG71 P70 Q110 U0.5 W0.1 F0.3' },
+  { code: 'G72', label: 'Desbaste de refrentado', template: 'G72 W2 R1\nG72 P70 Q110 U0.5 W0.1 F0.3' },
+  { code: 'G73', label: 'Repetición de patrón', template: 'G73 U5 W2 R3\nG73 P70 Q110 U0.5 W0.1 F0.3' },
+  { code: 'G74', label: 'Taladrado profundo', template: 'G74 R1\nG74 Z-30 Q5000 F0.15' },
+  { code: 'G75', label: 'Ranurado', template: 'G75 R1\nG75 X30 P1000 F0.1' },
+  { code: 'G76', label: 'Ciclo de roscado', template: 'G76 P010060 Q100 R0.05\nG76 X21.6 Z-25 P1200 Q300 F2.0' },
+  { code: 'G90', label: 'Coordenadas absolutas', template: 'G90' },
+  { code: 'G91', label: 'Coordenadas incrementales', template: 'G91' },
+  { code: 'G96', label: 'Velocidad de corte constante', template: 'G96 S200 M03' },
+  { code: 'G97', label: 'RPM fijas', template: 'G97 S1000 M03' },
+  { code: 'G98', label: 'Avance por minuto', template: 'G98' },
+  { code: 'G99', label: 'Avance por vuelta', template: 'G99' },
+  { code: 'M03', label: 'Husillo horario', template: 'M03' },
+  { code: 'M04', label: 'Husillo antihorario', template: 'M04' },
+  { code: 'M05', label: 'Parar husillo', template: 'M05' },
+  { code: 'M08', label: 'Refrigerante', template: 'M08' },
+  { code: 'M09', label: 'Apagar refrigerante', template: 'M09' },
+  { code: 'M30', label: 'Fin de programa', template: 'M30' },
+  { code: 'M98', label: 'Llamada a subprograma', template: 'M98 P2000 L1' },
+  { code: 'M99', label: 'Fin de subprograma', template: 'M99' },
+  { code: 'M100', label: 'Reiniciar desgaste', template: 'M100' }
+];
+
+/** "g1" → "G01", "M100" → "M100" */
+export const normalizeCode = (word: string): string => {
+  const letter = word[0].toUpperCase();
+  const value = parseFloat(word.substring(1));
+  return `${letter}${String(value).padStart(2, '0')}`;
+};
+
+// Drops bold/italic/inline-code marks from a line of lesson markdown
+const plain = (text: string) => text.replace(/\*\*|`|\*/g, '').trim();
+
+const CODE_PATTERN = /\b([GM])(\d{1,3})\b/g;
+const codesIn = (text: string) => Array.from(text.matchAll(CODE_PATTERN), m => normalizeCode(m[0]));
+
+/**
+ * Indexes the lessons: a heading that names codes ("### G00: ...", "# Ciclo G71")
+ * documents them with its section, and a bullet like "* **G41:** ..." documents
+ * its code. Subheadings win over the lesson title heading.
+ */
+const buildIndex = (): Record<string, CodeDoc> => {
+  const docs: Record<string, CodeDoc> = {};
+  const depths: Record<string, number> = {};
+  const add = (code: string, doc: Omit<CodeDoc, 'code'>, depth: number) => {
+    if (docs[code] && depths[code] >= depth) return;
+    docs[code] = { ...doc, code };
+    depths[code] = depth;
+  };
+
+  LESSONS.forEach(lesson => {
+    const lines = lesson.content.split('\n');
+    lines.forEach((line, i) => {
+      const heading = line.match(/^(#+)\s+(.*)$/);
+      if (heading) {
+        const codes = codesIn(heading[2]);
+        if (codes.length === 0) return;
+        const body: string[] = [];
+        for (let j = i + 1; j < lines.length && !/^#+\s/.test(lines[j]); j++) body.push(lines[j]);
+        // Prose lines without list markers; skips example blocks and "**Nota:**" asides
+        const prose = body
+          .filter(l => l.replace(/`[^`]*`|\([^)]*\)/g, '').trim().length > 10 && !/^\*\*[^*]+:\*\*/.test(l.trim()))
+          .map(l => ({ text: plain(l.replace(/^\s*(\*|\d+\.)\s+/, '')), listed: /^\s*(\*|\d+\.)\s/.test(l) }));
+        const syntax = body.flatMap(l => Array.from(l.matchAll(/`([^`]+)`/g), m => m[1])).filter(s => /^[GM]\d/i.test(s));
+        codes.forEach(code => {
+          // Prefer the sentence that names the code, else the first plain paragraph
+          const named = prose.find(p => codesIn(p.text).includes(code));
+          const first = prose.find(p => !p.listed && !p.text.endsWith(':'));
+          const description = (named || first)?.text.replace(/^[^:]{1,20}:\s*/, '') || '';
+          add(code, { title: plain(heading[2]), description, syntax: syntax.filter(s => normalizeCode(s) === code), lessonTitle: lesson.title }, heading[1].length);
+        });
+        return;
+      }
+      const bullet = line.match(/^\*\s+\*\*([GM]\d{1,3}):\*\*\s*(.*)$/);
+      if (bullet) add(normalizeCode(bullet[1]), { title: bullet[1], description: plain(bullet[2]), syntax: [], lessonTitle: lesson.title }, 9);
+    });
+  });
+
+  return docs;
+};
+
+let index: Record<string, CodeDoc> | null = null;
+
+/** Lesson card for a code, or a one-line card from the completion list */
+export const getCodeDoc = (word: string): CodeDoc | undefined => {
+  if (!index) index = buildIndex();
+  const code = normalizeCode(word);
+  if (index[code]) return index[code];
+  const completion = CODE_COMPLETIONS.find(c => c.code === code);
+  return completion ? { code, title: `${code}: ${completion.label}`, description: '', syntax: completion.template.split('\n') } : undefined;
+};
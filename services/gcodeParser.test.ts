@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseProgram } from './gcodeParser';
+
+const diagnose = (code: string) => parseProgram(code).diagnostics.map(({ severity, code: id, line, startColumn, endColumn }) => ({ severity, code: id, line, startColumn, endColumn }));
+
+describe('parseProgram diagnostics', () => {
+  it('accepts a clean program', () => {
+    expect(diagnose('G21 G18\nT0101\nG00 X42 Z2 (APROXIMACIÓN)\nG01 Z-10 F0.2\nM30')).toEqual([]);
+  });
+
+  it('reports word errors with their column span', () => {
+    expect(diagnose('G01 X10 Y5')).toEqual([{ severity: 'error', code: 'UNKNOWN_ADDRESS', line: 1, startColumn: 9, endColumn: 11 }]);
+    expect(diagnose('G01 X Z5')).toEqual([{ severity: 'error', code: 'MISSING_VALUE', line: 1, startColumn: 5, endColumn: 6 }]);
+    expect(diagnose('G00 X10 X20')).toEqual([{ severity: 'error', code: 'DUPLICATE_WORD', line: 1, startColumn: 9, endColumn: 12 }]);
+    expect(diagnose('G00 X1,5')).toEqual([{ severity: 'error', code: 'UNEXPECTED_TEXT', line: 1, startColumn: 7, endColumn: 9 }]);
+  });
+
+  it('reports unbalanced comments', () => {
+    expect(diagnose('G00 X10 (SIN CERRAR')).toEqual([{ severity: 'error', code: 'UNCLOSED_COMMENT', line: 1, startColumn: 9, endColumn: 20 }]);
+    expect(diagnose('G00 X10 )')).toEqual([{ severity: 'error', code: 'UNBALANCED_PAREN', line: 1, startColumn: 9, endColumn: 10 }]);
+  });
+
+  it('reports unsupported codes as errors and doubtful ones as warnings', () => {
+    expect(diagnose('G17')).toEqual([{ severity: 'error', code: 'UNSUPPORTED_GCODE', line: 1, startColumn: 1, endColumn: 4 }]);
+    expect(diagnose('G00 G01 X10')).toEqual([{ severity: 'warning', code: 'MODAL_CONFLICT', line: 1, startColumn: 5, endColumn: 8 }]);
+    expect(diagnose('M77')).toEqual([{ severity: 'warning', code: 'UNKNOWN_MCODE', line: 1, startColumn: 1, endColumn: 4 }]);
+  });
+
+  it('sorts diagnostics by line and column', () => {
+    const lines = diagnose('G00 X10 Y5 X20\nM77').map(d => `${d.line}:${d.startColumn}`);
+    expect(lines).toEqual(['1:9', '1:12', '2:1']);
+  });
+});
@@ -1,71 +1,364 @@
-import { GCodeCommand } from '../types';
+import { GCodeCommand, MacroExpr, MacroStatement, ModalState, ParseDiagnostic } from '../types';
+import { isMacroStatement, parseMacroStatement, parseWordValue } from './macroEngine';
+
+const MOTION_CODES = [0, 1, 2, 3, 32, 33];
+
+/** Modal group of every modal G-code (motion codes are group 01) */
+export const MODAL_GROUPS: Record<number, keyof ModalState> = {
+  0: 'motion', 1: 'motion', 2: 'motion', 3: 'motion', 32: 'motion', 33: 'motion',
+  17: 'plane', 18: 'plane', 19: 'plane',
+  20: 'units', 21: 'units',
+  90: 'distance', 91: 'distance',
+  98: 'feedMode', 99: 'feedMode',
+  96: 'spindleMode', 97: 'spindleMode',
+  40: 'compensation', 41: 'compensation', 42: 'compensation',
+  54: 'coordinateSystem', 55: 'coordinateSystem', 56: 'coordinateSystem', 57: 'coordinateSystem', 58: 'coordinateSystem', 59: 'coordinateSystem'
+};
+
+/** Power-on state: G00 G18 G21 G90 G99 G97 G40 G54 */
+export const DEFAULT_MODAL_STATE: ModalState = {
+  motion: 0, plane: 18, units: 21, distance: 90, feedMode: 99, spindleMode: 97, compensation: 40, coordinateSystem: 54
+};
+
+/**
+ * Returns the modal state after G{code}; codes outside the modal groups
+ * (G04, G28, G50, canned cycles...) leave it unchanged.
+ */
+export const applyModalCode = (state: ModalState, code: number | undefined): ModalState => {
+  const group = code !== undefined ? MODAL_GROUPS[code] : undefined;
+  return group ? { ...state, [group]: code } : state;
+};
+
+/** Active codes in display order, e.g. ["G01", "G18", "G21", "G90", "G99", "G97", "G40", "G54"] */
+export const modalCodes = (state: ModalState): string[] =>
+  [state.motion, state.plane, state.units, state.distance, state.feedMode, state.spindleMode, state.compensation, state.coordinateSystem]
+    .map(code => `G${String(code).padStart(2, '0')}`);
+
+// Words that belong to a move rather than to the code they were written after
+const MOTION_WORDS = ['X', 'Z', 'U', 'W', 'I', 'K', 'R', 'F'];
+const AXIS_WORDS = ['X', 'Z', 'U', 'W'];
+
+/** G-codes the simulator can run */
+export const SUPPORTED_G_CODES = [0, 1, 2, 3, 4, 18, 20, 21, 28, 32, 33, 40, 41, 42, 50, 54, 55, 56, 57, 58, 59, 70, 71, 72, 73, 74, 75, 76, 90, 91, 96, 97, 98, 99];
+
+// M-codes with an effect in the simulator (others are accepted and ignored)
+const SUPPORTED_M_CODES = [3, 4, 5, 7, 8, 9, 30, 98, 99, 100];
+
+// Addresses a block may contain; O is the program number
+const ADDRESSES = 'GMTNOXZUWIKRFSPQHDL';
+// Addresses that take only a literal number, never a variable
+const LITERAL_ADDRESSES = 'GMTNO';
+
+interface Word {
+  letter: string;
+  value: number;
+  expr?: MacroExpr; // Value written with variables; `value` is 0 until the block runs
+  column: number; // 1-based column of the letter
+  length: number; // Characters up to the end of the number
+}
+
+interface ScannedLine {
+  words: Word[];
+  macro?: MacroStatement; // The line is a macro block: "#1 = 2", "IF [...] GOTO 10", "WHILE [...] DO1", "END1"
+}
+
+export interface ParseResult {
+  commands: GCodeCommand[];
+  diagnostics: ParseDiagnostic[];
+}
+
+// Splits a line into address words, skipping comments and reporting what can't be read
+const scanLine = (line: string, lineNumber: number, diagnostics: ParseDiagnostic[]): ScannedLine => {
+  const words: Word[] = [];
+  const text = line.toUpperCase();
+  const report = (severity: ParseDiagnostic['severity'], code: string, message: string, from: number, to: number) =>
+    diagnostics.push({ severity, code, message, line: lineNumber, startColumn: from + 1, endColumn: to + 1 });
+
+  // Macro block, after an optional sequence number; a comment may follow it
+  const head = text.match(/^[\s%]*(?:N\s*(\d+))?\s*/)!;
+  if (isMacroStatement(text, head[0].length)) {
+    if (head[1] !== undefined) {
+      const column = text.indexOf('N');
+      words.push({ letter: 'N', value: parseInt(head[1], 10), column: column + 1, length: text.indexOf(head[1], column) + head[1].length - column });
+    }
+    const comment = text.search(/[(;]/);
+    const end = comment === -1 ? text.length : comment;
+    if (text[end] === '(' && text.indexOf(')', end) === -1) report('error', 'UNCLOSED_COMMENT', 'Comentario sin cerrar: falta ")"', end, text.length);
+    const parsed = parseMacroStatement(text.substring(0, end), head[0].length);
+    if ('error' in parsed) {
+      report('error', 'MACRO_SYNTAX', parsed.error, parsed.start, parsed.end);
+      return { words };
+    }
+    return { words, macro: parsed.statement };
+  }
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch) || ch === '%') {
+      i++;
+    } else if (ch === ';') {
+      break;
+    } else if (ch === '(') {
+      const close = text.indexOf(')', i);
+      if (close === -1) {
+        report('error', 'UNCLOSED_COMMENT', 'Comentario sin cerrar: falta ")"', i, text.length);
+        break;
+      }
+      i = close + 1;
+    } else if (ch === ')') {
+      report('error', 'UNBALANCED_PAREN', '")" sin "(" de apertura', i, i + 1);
+      i++;
+    } else if (/[A-Z]/.test(ch)) {
+      // "X 10" is read as X10
+      let j = i + 1;
+      while (j < text.length && (text[j] === ' ' || text[j] === '\t')) j++;
+      const valueStart = text[j] === '-' || text[j] === '+' ? j + 1 : j;
+      if (text[valueStart] === '#' || text[valueStart] === '[') {
+        const parsed = parseWordValue(text, j);
+        if ('error' in parsed) {
+          let skip = parsed.end;
+          while (skip < text.length && !/[\s(;]/.test(text[skip])) skip++;
+          report('error', 'MACRO_SYNTAX', parsed.error, parsed.start, parsed.end);
+          i = skip;
+          continue;
+        }
+        const end = parsed.end;
+        if (!ADDRESSES.includes(ch)) report('error', 'UNKNOWN_ADDRESS', `Dirección ${ch} desconocida en un torno`, i, end);
+        else if (LITERAL_ADDRESSES.includes(ch)) report('error', 'MACRO_ADDRESS', `La dirección ${ch} no admite variables en el simulador`, i, end);
+        else words.push({ letter: ch, value: 0, expr: parsed.expr, column: i + 1, length: end - i });
+        i = end;
+        continue;
+      }
+      const number = text.substring(j).match(/^[-+]?(\d+\.?\d*|\.\d+)/);
+      if (!number) {
+        report('error', 'MISSING_VALUE', `Falta el valor de la dirección ${ch}`, i, i + 1);
+        i++;
+        continue;
+      }
+      const end = j + number[0].length;
+      if (!ADDRESSES.includes(ch)) report('error', 'UNKNOWN_ADDRESS', `Dirección ${ch} desconocida en un torno`, i, end);
+      else words.push({ letter: ch, value: parseFloat(number[0]), column: i + 1, length: end - i });
+      i = end;
+    } else {
+      let j = i + 1;
+      while (j < text.length && !/[\sA-Z(;]/.test(text[j])) j++;
+      report('error', 'UNEXPECTED_TEXT', `"${line.substring(i, j)}" no es una palabra G-code`, i, j);
+      i = j;
+    }
+  }
+  return { words };
+};
+
+// Block-level checks: repeated words, unsupported codes and modal conflicts
+const checkBlock = (words: Word[], lineNumber: number, diagnostics: ParseDiagnostic[]) => {
+  const at = (w: Word) => ({ line: lineNumber, startColumn: w.column, endColumn: w.column + w.length });
+  const seen: Record<string, boolean> = {};
+  const groups: Partial<Record<keyof ModalState, Word>> = {};
+
+  words.forEach(w => {
+    const code = `${w.letter}${String(w.value).padStart(2, '0')}`;
+    if (w.letter === 'G') {
+      const group = MODAL_GROUPS[w.value];
+      if (!SUPPORTED_G_CODES.includes(w.value)) {
+        diagnostics.push({ severity: 'error', code: 'UNSUPPORTED_GCODE', message: `${code} no soportado`, ...at(w) });
+      } else if (group && groups[group]) {
+        diagnostics.push({ severity: 'warning', code: 'MODAL_CONFLICT', message: `G${String(groups[group]!.value).padStart(2, '0')} y ${code} son del mismo grupo modal: se usa ${code}`, ...at(w) });
+      }
+      if (group) groups[group] = w;
+    } else if (w.letter === 'M') {
+      if (!SUPPORTED_M_CODES.includes(w.value)) {
+        diagnostics.push({ severity: 'warning', code: 'UNKNOWN_MCODE', message: `${code} no tiene efecto en el simulador`, ...at(w) });
+      }
+    } else if (w.letter !== 'T') {
+      if (seen[w.letter]) {
+        diagnostics.push({ severity: 'error', code: 'DUPLICATE_WORD', message: `Dirección ${w.letter} repetida en el bloque`, ...at(w) });
+      }
+      seen[w.letter] = true;
+    }
+  });
+
+  // G74/G75 P and Q are increments: a negative one would never reach the end of the cycle
+  if (words.some(w => w.letter === 'G' && (w.value === 74 || w.value === 75))) {
+    words.forEach(w => {
+      if ((w.letter === 'P' || w.letter === 'Q') && !w.expr && w.value < 0) {
+        diagnostics.push({ severity: 'error', code: 'CYCLE_VALUE', message: `${w.letter} negativo: el incremento del ciclo debe ser positivo`, ...at(w) });
+      }
+    });
+  }
+};
 
 /**
- * Parses raw G-Code string into structured commands.
- * Supports multiple commands per line (e.g., "G01 X10 M03")
+ * Parses a program into structured commands plus compiler-style diagnostics
+ * (line and column span, severity and a message code), so problems show up
+ * before the program runs. Supports multiple commands per line (e.g.,
+ * "G01 X10 M03").
+ *
+ * Every block is resolved against the modal state it inherits: its G-codes
+ * update the state and the snapshot is attached to each of its commands. Axis
+ * words without a motion code ("N90 X50") become a move of the modal motion,
+ * flagged so that a subprogram moves with the motion of its caller.
  */
-export const parseGCode = (code: string): GCodeCommand[] => {
+export const parseProgram = (code: string): ParseResult => {
   const lines = code.split('\n');
   const commands: GCodeCommand[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  let modal = DEFAULT_MODAL_STATE;
 
   lines.forEach((line, index) => {
-    let cleanLine = line.trim().toUpperCase();
-    const commentIndex = cleanLine.indexOf('(');
-    
-    // Extract comment if exists
-    if (commentIndex !== -1) {
-      cleanLine = cleanLine.substring(0, commentIndex).trim();
-    }
-    
-    // Remove inline comments starting with ;
-    const semiIndex = cleanLine.indexOf(';');
-    if (semiIndex !== -1) cleanLine = cleanLine.substring(0, semiIndex).trim();
-
-    if (cleanLine.length === 0) return;
+    const { words, macro } = scanLine(line, index + 1, diagnostics);
+    checkBlock(words, index + 1, diagnostics);
+    // Sequence number (N) is shared by every command split from this block
+    const seqWord = words.find(w => w.letter === 'N');
+    const sequence = seqWord ? Math.trunc(seqWord.value) : undefined;
 
-    // Remove all spaces to handle "X 10" or "M 03" correctly
-    const content = cleanLine.replace(/\s+/g, '');
+    if (macro) {
+      commands.push({ type: 'MACRO', params: {}, macro, line: index + 1, raw: line, sequence, modal });
+    } else if (words.length > 0) {
+      const block: GCodeCommand[] = [];
 
-    // Regex to find letter+number groups (e.g. G01, X10.5, M3)
-    const matches = content.match(/([A-Z])([-+]?[0-9]*\.?[0-9]+)/g);
-    
-    if (matches) {
       let currentCmd: Partial<GCodeCommand> = { 
         params: {}, 
         line: index + 1, 
         raw: line,
+        sequence,
         // Default type G if no explicit command letter is found first
         type: 'G' 
       };
       let hasExplicitType = false;
 
-      matches.forEach(match => {
-        const letter = match[0];
-        const value = parseFloat(match.substring(1));
-        
+      words.forEach(({ letter, value, expr }) => {
         // If we encounter a command letter (G, M, T), check if we need to split
         if (['G', 'M', 'T'].includes(letter)) {
           if (hasExplicitType) {
             // We already have a command type for this object, so push it and start a new one
             // This handles cases like "G01 X10 M03" -> splits into G01 and M03
-            commands.push(currentCmd as GCodeCommand);
-            currentCmd = { params: {}, line: index + 1, raw: line, type: 'G' };
+            block.push(currentCmd as GCodeCommand);
+            currentCmd = { params: {}, line: index + 1, raw: line, sequence, type: 'G' };
           }
           currentCmd.type = letter as any;
           currentCmd.code = value;
           hasExplicitType = true;
+        } else if (letter === 'N') {
+          // Sequence number already captured for the whole block
         } else {
           // It's a parameter (X, Z, S, F, etc.)
           if (currentCmd.params) {
             currentCmd.params[letter] = value;
+            if (expr) currentCmd.expressions = { ...currentCmd.expressions, [letter]: expr };
           }
         }
       });
 
       // Push the final command found in the line
-      commands.push(currentCmd as GCodeCommand);
+      block.push(currentCmd as GCodeCommand);
+
+      block.forEach(c => {
+        if (c.type === 'G') modal = applyModalCode(modal, c.code);
+      });
+      const snapshot = modal;
+
+      // "G00 G42 X40 Z2", "G91 W-5", "X20 M08": move words written after a
+      // modal-only code (or an M/T word) belong to the block's motion
+      const ownsWords = (c: GCodeCommand) => c.type === 'G' && c.code !== undefined && MODAL_GROUPS[c.code] === undefined;
+      const loose = block.filter(c => !ownsWords(c) && !(c.type === 'G' && MOTION_CODES.includes(c.code ?? -1)));
+      let motion = block.find(c => c.type === 'G' && MOTION_CODES.includes(c.code ?? -1));
+      const hasAxis = loose.some(c => AXIS_WORDS.some(w => c.params[w] !== undefined));
+      if (!motion && hasAxis && !block.some(ownsWords)) {
+        motion = block.find(c => c.type === 'G' && c.code === undefined);
+        if (motion) motion.code = snapshot.motion;
+        else {
+          motion = { type: 'G', code: snapshot.motion, params: {}, line: index + 1, raw: line, sequence } as GCodeCommand;
+          block.unshift(motion);
+        }
+        motion.modalMotion = true;
+      }
+      if (motion) {
+        const move = motion;
+        loose.forEach(c => {
+          if (c === move) return;
+          MOTION_WORDS.forEach(w => {
+            if (c.params[w] === undefined) return;
+            if (move.params[w] === undefined) {
+              move.params[w] = c.params[w];
+              if (c.expressions?.[w]) move.expressions = { ...move.expressions, [w]: c.expressions[w] };
+            }
+            delete c.params[w];
+            if (c.expressions) delete c.expressions[w];
+          });
+        });
+        // The move runs under the block's modes: "G01 G91 X-5" is incremental
+        const lastMode = block.reduce((last, c, k) => (c.type === 'G' && c.code !== undefined && MODAL_GROUPS[c.code] !== undefined && MODAL_GROUPS[c.code] !== 'motion' ? k : last), -1);
+        const at = block.indexOf(move);
+        if (at < lastMode) {
+          block.splice(at, 1);
+          block.splice(lastMode, 0, move);
+        }
+      }
+
+      block.forEach(c => commands.push({ ...c, modal: snapshot }));
     }
   });
 
-  return commands;
-};
\ No newline at end of file
+  linkMacroBlocks(commands, diagnostics);
+  diagnostics.sort((a, b) => a.line - b.line || a.startColumn - b.startColumn);
+  return { commands, diagnostics };
+};
+
+// Pairs every WHILE ... DOm with the ENDm closing it and checks that literal GOTO targets exist
+const linkMacroBlocks = (commands: GCodeCommand[], diagnostics: ParseDiagnostic[]) => {
+  const report = (c: GCodeCommand, code: string, message: string) =>
+    diagnostics.push({ severity: 'error', code, message, line: c.line, startColumn: 1, endColumn: c.raw.length + 1 });
+  const open: number[] = []; // Indices of the WHILE blocks not closed yet, innermost last
+
+  commands.forEach((c, i) => {
+    const statement = c.macro;
+    if (!statement) return;
+    if (statement.kind === 'while') {
+      open.push(i);
+    } else if (statement.kind === 'end') {
+      const top = open.length > 0 ? commands[open[open.length - 1]].macro : undefined;
+      if (!top || top.kind !== 'while' || top.loop !== statement.loop) {
+        report(c, 'UNMATCHED_LOOP', `END${statement.loop} sin WHILE ... DO${statement.loop} abierto`);
+        return;
+      }
+      top.end = i;
+      statement.start = open.pop()!;
+    } else if (statement.kind === 'goto' && statement.target.kind === 'number') {
+      const n = statement.target.value;
+      if (!commands.some(other => other.sequence === n && other.program === c.program)) report(c, 'MISSING_SEQUENCE', `GOTO${n}: secuencia N${n} no encontrada`);
+    }
+  });
+  open.forEach(i => {
+    const statement = commands[i].macro;
+    if (statement?.kind === 'while') report(commands[i], 'UNMATCHED_LOOP', `WHILE ... DO${statement.loop} sin END${statement.loop}`);
+  });
+};
+
+/** Commands of a program, for callers that don't show diagnostics */
+export const parseGCode = (code: string): GCodeCommand[] => parseProgram(code).commands;
+
+export interface BlockRange {
+  start: number; // Index of the first command of block P
+  end: number;   // Index of the last command of block Q
+  error?: string;
+}
+
+/**
+ * Finds the commands spanning sequence numbers N{p} through N{q}, as used by
+ * the P/Q words of G70–G73. Every command on the Q line is included. In a
+ * program library only the blocks of program O{program} are searched.
+ */
+export const findBlockRange = (commands: GCodeCommand[], p: number, q: number, program?: number): BlockRange => {
+  const start = commands.findIndex(c => c.sequence === p && c.program === program);
+  if (start === -1) return { start, end: -1, error: `secuencia N${p} (P) no encontrada` };
+
+  let end = -1;
+  for (let i = start; i < commands.length && commands[i].program === program; i++) {
+    if (commands[i].sequence === q) end = i;
+    else if (end !== -1) break;
+  }
+  if (end === -1) return { start, end, error: `secuencia N${q} (Q) no encontrada después de N${p}` };
+
+  return { start, end };
+};
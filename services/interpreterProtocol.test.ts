@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { TOOLS } from '../constants';
+import { GCodeCommand } from '../types';
+import { parseGCode } from './gcodeParser';
+import { InterpreterResponse, connectInterpreter } from './interpreterProtocol';
+import { MachineConfig } from './simulationKernel';
+
+const MACHINE: MachineConfig = { home: { x: 100, z: 50 }, stockDiameter: 40, stockLength: 150, material: 'Steel' };
+
+// Workers are not available under Node: the connection runs the session in-thread
+const connect = () => {
+  const responses: InterpreterResponse[] = [];
+  return { responses, connection: connectInterpreter(response => responses.push(response)) };
+};
+
+describe('connectInterpreter', () => {
+  it('answers a cycle time estimate', () => {
+    const { responses, connection } = connect();
+    connection.post({ type: 'estimate', id: 3, commands: parseGCode('G98\nT0101\nG00 X42 Z2\nG01 Z-10 F600\nM30'), machine: MACHINE, tools: TOOLS, options: { rapidRate: 8000 } });
+    expect(responses).toEqual([{ type: 'estimate', id: 3, report: expect.objectContaining({ cutting: expect.closeTo(1.2) }) }]);
+  });
+
+  it('turns an exception in the interpreter into an error response', () => {
+    const { responses, connection } = connect();
+    connection.post({ type: 'estimate', id: 1, commands: [undefined as unknown as GCodeCommand], machine: MACHINE, tools: TOOLS, options: { rapidRate: 8000 } });
+    expect(responses).toEqual([{ type: 'error', message: expect.stringMatching(/^Fallo interno del intérprete: /) }]);
+  });
+});
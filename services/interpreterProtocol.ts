@@ -0,0 +1,152 @@
+import { GCodeCommand, PathSegment, SimulationState, StockProfile, ToolConfig } from '../types';
+import { CycleTimeOptions, CycleTimeReport, analyzeCycleTime } from './cycleTimeAnalyzer';
+import { MachineConfig } from './simulationKernel';
+import { InterpreterConfig, ProgramRun, createProgramRun, runBlock, seekBlock } from './programInterpreter';
+
+/** Blocks laid out between two progress reports while a program loads */
+export const LOAD_CHUNK = 1000;
+
+export type InterpreterRequest =
+  | { type: 'load'; program: number; commands: GCodeCommand[]; config: Omit<InterpreterConfig, 'commands'> }
+  // Lay out command `index` as reached after step `from` (-1 from the start), see seekBlock
+  | { type: 'seek'; id: number; index: number; from: number }
+  // Cycle time of a whole program, see analyzeCycleTime
+  | { type: 'estimate'; id: number; commands: GCodeCommand[]; machine: MachineConfig; tools: ToolConfig[]; options: CycleTimeOptions };
+
+export type InterpreterResponse =
+  | { type: 'progress'; program: number; done: number; total: number } // Commands reached so far
+  | { type: 'ready'; program: number; total: number }
+  | {
+      type: 'block';
+      program: number;
+      id: number;
+      index: number;
+      step: number; // Position in execution order
+      next: number; // Command run after this one; commands.length at the end of the program
+      state: Omit<SimulationState, 'path'>;
+      // The path is sent as a delta: keep the first `pathStart` segments already
+      // received, then append `segments`
+      pathStart: number;
+      segments: PathSegment[];
+      blockStart: number;
+      blockStock: StockProfile;
+      dwell: number;
+    }
+  | { type: 'alarm'; program: number; id: number; index: number; message: string }
+  | { type: 'estimate'; id: number; report: CycleTimeReport }
+  | { type: 'error'; message: string }; // The interpreter itself failed
+
+export interface InterpreterSession {
+  handle: (request: InterpreterRequest) => void;
+}
+
+/**
+ * Interpreter side of the protocol. Runs inside the worker, or on the main
+ * thread where workers are not available. A load lays out the whole program
+ * in chunks, reporting progress; seeks received meanwhile wait for it.
+ */
+export const createInterpreterSession = (send: (response: InterpreterResponse) => void): InterpreterSession => {
+  let run: ProgramRun | null = null;
+  let program = 0;
+  let loading = false;
+  let queued: InterpreterRequest | null = null; // Latest seek received while loading
+  let sentPath: PathSegment[] = []; // Path the main thread holds, as of the last block sent
+  let sentLength = 0;
+
+  const reply = (id: number, index: number, from: number) => {
+    if (!run) return;
+    const result = seekBlock(run, index, from);
+    if ('error' in result) {
+      send({ type: 'alarm', program, id, index, message: result.error });
+      return;
+    }
+    // After a seek back the path is a new array sharing its prefix with the one sent
+    const { path, ...state } = result.state;
+    let keep = Math.min(sentLength, path.length);
+    if (path !== sentPath) {
+      let k = 0;
+      while (k < keep && path[k] === sentPath[k]) k++;
+      keep = k;
+    }
+    sentPath = path;
+    sentLength = path.length;
+    send({ type: 'block', program, id, index, step: result.step, next: result.next, state, pathStart: keep, segments: path.slice(keep), blockStart: result.blockStart, blockStock: result.blockStock, dwell: result.dwell });
+  };
+
+  const load = (generation: number, from: number) => {
+    if (generation !== program || !run) return;
+    const total = run.config.commands.length;
+    const end = from + LOAD_CHUNK;
+    let step = from;
+    let failed = false;
+    // An alarm stops the layout here; it is raised when execution reaches the block
+    while (step < end && !failed && run.context.next < total) failed = 'error' in runBlock(run, step++);
+    if (!failed && run.context.next < total) {
+      send({ type: 'progress', program, done: run.context.next, total });
+      setTimeout(() => load(generation, step), 0);
+      return;
+    }
+    loading = false;
+    send({ type: 'ready', program, total });
+    if (queued) {
+      const request = queued;
+      queued = null;
+      handle(request);
+    }
+  };
+
+  const handle = (request: InterpreterRequest) => {
+    if (request.type === 'load') {
+      program = request.program;
+      run = createProgramRun({ ...request.config, commands: request.commands });
+      loading = true;
+      queued = null;
+      sentPath = [];
+      sentLength = 0;
+      load(program, 0);
+    } else if (request.type === 'estimate') {
+      send({ type: 'estimate', id: request.id, report: analyzeCycleTime(request.commands, request.machine, request.tools, request.options) });
+    } else if (loading) {
+      queued = request;
+    } else {
+      reply(request.id, request.index, request.from);
+    }
+  };
+
+  return { handle };
+};
+
+export interface InterpreterConnection {
+  post: (request: InterpreterRequest) => void;
+  close: () => void;
+}
+
+const failure = (detail: string): InterpreterResponse => ({ type: 'error', message: `Fallo interno del intérprete: ${detail}` });
+
+/**
+ * Starts the interpreter in a Web Worker, or in-thread when workers are
+ * unavailable. An exception in the interpreter comes back as an error response.
+ */
+export const connectInterpreter = (onResponse: (response: InterpreterResponse) => void): InterpreterConnection => {
+  if (typeof Worker !== 'undefined') {
+    const worker = new Worker(new URL('./interpreterWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<InterpreterResponse>) => onResponse(e.data);
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      onResponse(failure(e.message || 'error desconocido'));
+    };
+    worker.onmessageerror = () => onResponse(failure('respuesta ilegible'));
+    return { post: request => worker.postMessage(request), close: () => worker.terminate() };
+  }
+  const session = createInterpreterSession(onResponse);
+  return {
+    post: request => {
+      try {
+        session.handle(request);
+      } catch (e) {
+        onResponse(failure(e instanceof Error ? e.message : String(e)));
+      }
+    },
+    close: () => {}
+  };
+};
@@ -0,0 +1,5 @@
+import { InterpreterRequest, createInterpreterSession } from './interpreterProtocol';
+
+// Web Worker entry: runs the interpreter off the main thread
+const session = createInterpreterSession(response => self.postMessage(response));
+self.onmessage = (e: MessageEvent<InterpreterRequest>) => session.handle(e.data);
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { TOOLS } from '../constants';
+import { parseGCode, parseProgram } from './gcodeParser';
+import { linkPrograms } from './programLibrary';
+import { MachineConfig, simulateProgram } from './simulationKernel';
+
+const MACHINE: MachineConfig = { home: { x: 100, z: 50 }, stockDiameter: 40, stockLength: 150, material: 'Steel' };
+
+const run = (code: string) => simulateProgram(parseGCode(code), MACHINE, TOOLS);
+const codes = (code: string) => parseProgram(code).diagnostics.map(d => d.code);
+
+describe('Macro B loops and jumps', () => {
+  it('runs a WHILE loop until its condition fails', () => {
+    const result = run('#1 = 0\nWHILE [#1 LT 5] DO1\n#1 = #1 + 1\nEND1\nM30');
+    expect(result.alarm).toBeUndefined();
+    expect(result.states[result.states.length - 1].variables[1]).toBe(5);
+  });
+
+  it('stops at an END without its WHILE', () => {
+    expect(codes('END1')).toEqual(['UNMATCHED_LOOP']);
+    expect(run('END1').alarm).toEqual({ index: 0, line: 1, message: 'Error Macro: END1 sin WHILE ... DO1 abierto en línea 1' });
+  });
+
+  it('stops at a WHILE without its END instead of restarting the program', () => {
+    expect(codes('WHILE [0 GT 1] DO1\nM30')).toEqual(['UNMATCHED_LOOP']);
+    const result = run('G00 X50\nWHILE [0 GT 1] DO1\nM30');
+    expect(result.alarm?.message).toBe('Error Macro: WHILE ... DO1 sin END1 en línea 2');
+    expect(result.states).toHaveLength(1);
+  });
+
+  it('checks GOTO targets within their own program', () => {
+    expect(codes('GOTO 20\nN20 M30')).toEqual([]);
+    expect(codes('GOTO 30\nN20 M30')).toEqual(['MISSING_SEQUENCE']);
+    const library = linkPrograms([{ number: 1, code: 'GOTO 20\nM30' }, { number: 2, code: 'N20 M99' }]);
+    expect(library.diagnostics[1].map(d => d.code)).toEqual(['MISSING_SEQUENCE']);
+  });
+
+  it('raises an alarm for a computed GOTO to a missing sequence', () => {
+    expect(run('#1 = 40\nGOTO #1\nN20 M30').alarm?.message).toBe('Error Macro: GOTO40: secuencia N40 no encontrada en línea 2');
+  });
+});
@@ -0,0 +1,440 @@
+import { GCodeCommand, MacroExpr, MacroStatement, ModalState } from '../types';
+
+/** Macro variables holding a value; the others are vacant, like #0 */
+export type MacroVariables = Record<number, number>;
+
+/** Machine values the system variables read */
+export interface MacroMachine {
+  x: number;
+  z: number;
+  modal: ModalState;
+  feed: number;
+  s: number;
+  tool: number;
+}
+
+/** Blocks a program may run before it is taken for an endless loop */
+export const MAX_EXECUTED_BLOCKS = 100000;
+
+export const runawayError = () => `ALARMA MACRO: más de ${MAX_EXECUTED_BLOCKS} bloques ejecutados (¿bucle sin fin?)`;
+
+const FUNCTIONS = ['SIN', 'COS', 'TAN', 'ASIN', 'ACOS', 'ATAN', 'SQRT', 'ABS', 'ROUND', 'FIX', 'FUP', 'LN', 'EXP'];
+const ADDITIVE = ['OR', 'XOR'];
+const MULTIPLICATIVE = ['AND', 'MOD'];
+const COMPARISONS = ['EQ', 'NE', 'GT', 'GE', 'LT', 'LE'];
+const RAD = Math.PI / 180;
+
+/** Local (#1–#33) and common (#100–#199, #500–#999) variables, the ones a program writes */
+export const isUserVariable = (n: number) => (n >= 1 && n <= 33) || (n >= 100 && n <= 199) || (n >= 500 && n <= 999);
+
+// Read-only system variables (Fanuc lathe numbering): modal groups, F/S/T and the block end position
+const SYSTEM_VARIABLES: Record<number, (m: MacroMachine) => number> = {
+  4001: m => m.modal.motion,
+  4002: m => m.modal.spindleMode,
+  4003: m => m.modal.distance,
+  4005: m => m.modal.feedMode,
+  4006: m => m.modal.units,
+  4007: m => m.modal.compensation,
+  4014: m => m.modal.coordinateSystem,
+  4016: m => m.modal.plane,
+  4109: m => m.feed,
+  4119: m => m.s,
+  4120: m => m.tool,
+  5001: m => m.x,
+  5002: m => m.z
+};
+
+/** System variables the simulator provides, in ascending order */
+export const SYSTEM_VARIABLE_NUMBERS = Object.keys(SYSTEM_VARIABLES).map(Number);
+
+// Thrown by the parser and the evaluator; the exported functions turn it into a message
+class MacroError extends Error {
+  constructor(message: string, public position = 0) {
+    super(message);
+  }
+}
+
+/** Value of #n, or null when vacant */
+export const readVariable = (vars: MacroVariables, n: number, machine: MacroMachine): number | null => {
+  if (n === 0) return null;
+  if (isUserVariable(n)) return vars[n] ?? null;
+  const system = SYSTEM_VARIABLES[n];
+  if (system) return system(machine);
+  throw new MacroError(`la variable #${n} no existe en el simulador`);
+};
+
+// --- Parsing ---
+
+interface Cursor {
+  text: string; // Upper case
+  pos: number;
+}
+
+const skipSpaces = (c: Cursor) => {
+  while (c.pos < c.text.length && (c.text[c.pos] === ' ' || c.text[c.pos] === '\t')) c.pos++;
+};
+
+// Letters at the cursor, as a whole word ("GOTO" in "GOTO50")
+const peekWord = (c: Cursor): string => {
+  skipSpaces(c);
+  const match = c.text.substring(c.pos).match(/^[A-Z]+/);
+  return match ? match[0] : '';
+};
+
+const expect = (c: Cursor, ch: string) => {
+  skipSpaces(c);
+  if (c.text[c.pos] !== ch) throw new MacroError(`falta "${ch}"`, c.pos);
+  c.pos++;
+};
+
+const readNumber = (c: Cursor, integer = false): number => {
+  skipSpaces(c);
+  const match = c.text.substring(c.pos).match(integer ? /^\d+/ : /^(\d+\.?\d*|\.\d+)/);
+  if (!match) throw new MacroError(integer ? 'falta un número entero' : 'falta un número', c.pos);
+  c.pos += match[0].length;
+  return parseFloat(match[0]);
+};
+
+const bracket = (c: Cursor): MacroExpr => {
+  expect(c, '[');
+  const expr = expression(c);
+  expect(c, ']');
+  return expr;
+};
+
+// #n or #[expr]: the expression giving the variable number
+const variableIndex = (c: Cursor): MacroExpr => {
+  expect(c, '#');
+  skipSpaces(c);
+  return c.text[c.pos] === '[' ? bracket(c) : { kind: 'number', value: readNumber(c, true) };
+};
+
+const primary = (c: Cursor): MacroExpr => {
+  skipSpaces(c);
+  const ch = c.text[c.pos];
+  if (ch === '#') return { kind: 'variable', index: variableIndex(c) };
+  if (ch === '[') return bracket(c);
+  if (ch !== undefined && /[\d.]/.test(ch)) return { kind: 'number', value: readNumber(c) };
+  const name = peekWord(c);
+  if (FUNCTIONS.includes(name)) {
+    c.pos += name.length;
+    expect(c, '[');
+    const args = [expression(c)];
+    skipSpaces(c);
+    if (name === 'ATAN' && c.text[c.pos] === ',') {
+      c.pos++;
+      args.push(expression(c));
+    }
+    expect(c, ']');
+    // ATAN[y]/[x] is the two-argument arctangent
+    const after = c.pos;
+    skipSpaces(c);
+    if (name === 'ATAN' && args.length === 1 && c.text[c.pos] === '/' && c.text.substring(c.pos + 1).trimStart().startsWith('[')) {
+      c.pos++;
+      args.push(bracket(c));
+    } else c.pos = after;
+    return { kind: 'call', name, args };
+  }
+  throw new MacroError(name ? `"${name}" no es una función de macro` : 'se esperaba un número, una variable o "["', c.pos);
+};
+
+const unary = (c: Cursor): MacroExpr => {
+  skipSpaces(c);
+  if (c.text[c.pos] === '-') {
+    c.pos++;
+    return { kind: 'negate', operand: unary(c) };
+  }
+  if (c.text[c.pos] === '+') {
+    c.pos++;
+    return unary(c);
+  }
+  return primary(c);
+};
+
+// Binary operators of one precedence level, written as symbols or as words
+const binaryLevel = (symbols: string[], words: string[], operand: (c: Cursor) => MacroExpr) => (c: Cursor): MacroExpr => {
+  let left = operand(c);
+  for (;;) {
+    skipSpaces(c);
+    let op = symbols.includes(c.text[c.pos]) ? c.text[c.pos] : '';
+    if (!op) {
+      const word = peekWord(c);
+      if (!words.includes(word)) return left;
+      op = word;
+    }
+    c.pos += op.length;
+    left = { kind: 'binary', op, left, right: operand(c) };
+  }
+};
+
+// Precedence: functions, then * / AND MOD, then + - OR XOR, then comparisons
+const term = binaryLevel(['*', '/'], MULTIPLICATIVE, unary);
+const sum = binaryLevel(['+', '-'], ADDITIVE, term);
+
+const expression = (c: Cursor): MacroExpr => {
+  const left = sum(c);
+  const op = peekWord(c);
+  if (!COMPARISONS.includes(op)) return left;
+  c.pos += op.length;
+  return { kind: 'binary', op, left, right: sum(c) };
+};
+
+type Parsed<T> = T | { error: string; start: number; end: number };
+
+const syntaxError = (e: unknown, text: string): { error: string; start: number; end: number } => {
+  if (!(e instanceof MacroError)) throw e;
+  const start = Math.min(e.position, Math.max(0, text.length - 1));
+  return { error: `Macro: ${e.message}`, start, end: start + 1 };
+};
+
+/** True when the text at `pos` is a macro block: "#1 = ...", IF, GOTO, WHILE or END */
+export const isMacroStatement = (text: string, pos: number): boolean =>
+  text[pos] === '#' || /^(IF|GOTO|WHILE|END)(?![A-Z])/.test(text.substring(pos));
+
+/**
+ * Reads the value of an address written with variables: #1, -#1, #[#1+1] or
+ * [expr]. `text` is the upper-case line, `start` where the value begins.
+ */
+export const parseWordValue = (text: string, start: number): Parsed<{ expr: MacroExpr; end: number }> => {
+  const c: Cursor = { text, pos: start };
+  try {
+    const sign = text[c.pos] === '-' || text[c.pos] === '+' ? text[c.pos++] : '';
+    const value = primary(c);
+    return { expr: sign === '-' ? { kind: 'negate', operand: value } : value, end: c.pos };
+  } catch (e) {
+    return syntaxError(e, text);
+  }
+};
+
+/**
+ * Parses a macro block from `start` to the end of `text` (comments already cut
+ * off). WHILE/END pairs are linked later, once the whole program is known.
+ */
+export const parseMacroStatement = (text: string, start: number): Parsed<{ statement: MacroStatement }> => {
+  const c: Cursor = { text, pos: start };
+  const loopNumber = () => {
+    const at = c.pos;
+    const n = readNumber(c, true);
+    if (n < 1 || n > 3) throw new MacroError('los bucles se numeran DO1 a DO3', at);
+    return n;
+  };
+  const gotoTarget = (): MacroExpr => {
+    skipSpaces(c);
+    return c.text[c.pos] === '#' || c.text[c.pos] === '[' ? primary(c) : { kind: 'number', value: readNumber(c, true) };
+  };
+
+  try {
+    let statement: MacroStatement;
+    const keyword = peekWord(c);
+    if (text[c.pos] === '#') {
+      const variable = variableIndex(c);
+      expect(c, '=');
+      statement = { kind: 'assign', variable, value: expression(c) };
+    } else if (keyword === 'IF') {
+      c.pos += 2;
+      const condition = bracket(c);
+      const then = peekWord(c);
+      if (then === 'GOTO') {
+        c.pos += 4;
+        statement = { kind: 'goto', condition, target: gotoTarget() };
+      } else if (then === 'THEN') {
+        c.pos += 4;
+        const variable = variableIndex(c);
+        expect(c, '=');
+        statement = { kind: 'if', condition, variable, value: expression(c) };
+      } else throw new MacroError('IF necesita GOTO o THEN', c.pos);
+    } else if (keyword === 'GOTO') {
+      c.pos += 4;
+      statement = { kind: 'goto', target: gotoTarget() };
+    } else if (keyword === 'WHILE') {
+      c.pos += 5;
+      const condition = bracket(c);
+      if (peekWord(c) !== 'DO') throw new MacroError('WHILE necesita DO', c.pos);
+      c.pos += 2;
+      statement = { kind: 'while', condition, loop: loopNumber(), end: -1 };
+    } else {
+      c.pos += 3;
+      statement = { kind: 'end', loop: loopNumber(), start: -1 };
+    }
+    skipSpaces(c);
+    if (c.pos < text.length) throw new MacroError(`"${text.substring(c.pos).trim()}" sobra en el bloque`, c.pos);
+    return { statement };
+  } catch (e) {
+    return syntaxError(e, text);
+  }
+};
+
+// --- Evaluation ---
+
+const numberOf = (expr: MacroExpr, vars: MacroVariables, machine: MacroMachine): number => evaluate(expr, vars, machine) ?? 0;
+
+// Variable numbers are rounded, as on the control
+const variableNumber = (index: MacroExpr, vars: MacroVariables, machine: MacroMachine): number => {
+  const n = Math.round(numberOf(index, vars, machine));
+  if (n < 0) throw new MacroError(`número de variable no válido (#${n})`);
+  return n;
+};
+
+// Fanuc rounds half away from zero
+const roundAway = (v: number) => Math.sign(v) * Math.round(Math.abs(v));
+
+const call = (name: string, args: number[]): number => {
+  const [a, b] = args;
+  switch (name) {
+    case 'SIN': return Math.sin(a * RAD);
+    case 'COS': return Math.cos(a * RAD);
+    case 'TAN': return Math.tan(a * RAD);
+    case 'ASIN':
+    case 'ACOS':
+      if (Math.abs(a) > 1) throw new MacroError(`${name}[${a}] fuera de rango`);
+      return (name === 'ASIN' ? Math.asin(a) : Math.acos(a)) / RAD;
+    case 'ATAN': {
+      // Two arguments give 0–360°, as on the control
+      if (b === undefined) return Math.atan(a) / RAD;
+      const angle = Math.atan2(a, b) / RAD;
+      return angle < 0 ? angle + 360 : angle;
+    }
+    case 'SQRT':
+      if (a < 0) throw new MacroError(`SQRT de un número negativo (${a})`);
+      return Math.sqrt(a);
+    case 'ABS': return Math.abs(a);
+    case 'ROUND': return roundAway(a);
+    case 'FIX': return Math.trunc(a);
+    case 'FUP': return Math.sign(a) * Math.ceil(Math.abs(a));
+    case 'LN':
+      if (a <= 0) throw new MacroError(`LN de un número no positivo (${a})`);
+      return Math.log(a);
+    default: return Math.exp(a);
+  }
+};
+
+const binary = (op: string, l: number, r: number): number => {
+  switch (op) {
+    case '+': return l + r;
+    case '-': return l - r;
+    case '*': return l * r;
+    case '/':
+    case 'MOD':
+      if (r === 0) throw new MacroError('división por cero');
+      return op === '/' ? l / r : l % r;
+    case 'AND': return Math.trunc(l) & Math.trunc(r);
+    case 'OR': return Math.trunc(l) | Math.trunc(r);
+    case 'XOR': return Math.trunc(l) ^ Math.trunc(r);
+    case 'GT': return l > r ? 1 : 0;
+    case 'GE': return l >= r ? 1 : 0;
+    case 'LT': return l < r ? 1 : 0;
+    default: return l <= r ? 1 : 0;
+  }
+};
+
+// Vacant values count as 0, except for EQ/NE: only a vacant variable equals #0
+const evaluate = (expr: MacroExpr, vars: MacroVariables, machine: MacroMachine): number | null => {
+  switch (expr.kind) {
+    case 'number': return expr.value;
+    case 'variable': return readVariable(vars, variableNumber(expr.index, vars, machine), machine);
+    case 'negate': {
+      const v = evaluate(expr.operand, vars, machine);
+      return v === null ? null : -v;
+    }
+    case 'binary': {
+      if (expr.op === 'EQ' || expr.op === 'NE') {
+        const l = evaluate(expr.left, vars, machine);
+        const r = evaluate(expr.right, vars, machine);
+        const equal = l === null || r === null ? l === r : Math.abs(l - r) < 1e-9;
+        return equal === (expr.op === 'EQ') ? 1 : 0;
+      }
+      const result = binary(expr.op, numberOf(expr.left, vars, machine), numberOf(expr.right, vars, machine));
+      if (!isFinite(result)) throw new MacroError('resultado fuera de rango');
+      return result;
+    }
+    case 'call': {
+      const result = call(expr.name, expr.args.map(a => numberOf(a, vars, machine)));
+      if (!isFinite(result)) throw new MacroError(`${expr.name} fuera de rango`);
+      return result;
+    }
+  }
+};
+
+const runtimeError = (e: unknown, cmd: GCodeCommand): string => {
+  if (!(e instanceof MacroError)) throw e;
+  return `Error Macro: ${e.message} en línea ${cmd.line}`;
+};
+
+/**
+ * Gives the words written with variables their value. A vacant variable
+ * leaves its word out of the block, as on the control.
+ */
+export const resolveWords = (cmd: GCodeCommand, vars: MacroVariables, machine: MacroMachine): { command: GCodeCommand; error?: string } => {
+  if (!cmd.expressions) return { command: cmd };
+  const params = { ...cmd.params };
+  try {
+    Object.entries(cmd.expressions).forEach(([letter, expr]) => {
+      const value = evaluate(expr, vars, machine);
+      if (value === null) delete params[letter];
+      else params[letter] = value;
+    });
+  } catch (e) {
+    return { command: cmd, error: runtimeError(e, cmd) };
+  }
+  return { command: { ...cmd, params } };
+};
+
+/** resolveWords for a run of blocks, e.g. the P–Q profile of a cycle */
+export const resolveBlocks = (commands: GCodeCommand[], vars: MacroVariables, machine: MacroMachine): { commands: GCodeCommand[]; error?: string } => {
+  const resolved: GCodeCommand[] = [];
+  for (const cmd of commands) {
+    const { command, error } = resolveWords(cmd, vars, machine);
+    if (error) return { commands: resolved, error };
+    resolved.push(command);
+  }
+  return { commands: resolved };
+};
+
+/**
+ * Runs the macro block at `index`: assignments update `vars` in place, GOTO
+ * and WHILE/END pick the next command. #3000 = n raises alarm 3000 + n with
+ * the block's comment as its message.
+ */
+export const runMacro = (commands: GCodeCommand[], index: number, vars: MacroVariables, machine: MacroMachine): { next: number; error?: string } => {
+  const cmd = commands[index];
+  const statement = cmd.macro!;
+  const holds = (condition: MacroExpr) => numberOf(condition, vars, machine) !== 0;
+  const store = (variable: MacroExpr, valueExpr: MacroExpr): string | undefined => {
+    const n = variableNumber(variable, vars, machine);
+    const value = evaluate(valueExpr, vars, machine);
+    if (n === 3000) {
+      const message = cmd.raw.match(/\(([^)]*)\)/);
+      return `ALARMA MACRO ${3000 + Math.trunc(value ?? 0)}${message ? `: ${message[1].trim()}` : ''}`;
+    }
+    if (!isUserVariable(n)) throw new MacroError(`la variable #${n} no se puede escribir`);
+    if (value === null) delete vars[n];
+    else vars[n] = value;
+    return undefined;
+  };
+
+  try {
+    switch (statement.kind) {
+      case 'assign':
+        return { next: index + 1, error: store(statement.variable, statement.value) };
+      case 'if':
+        return { next: index + 1, error: holds(statement.condition) ? store(statement.variable, statement.value) : undefined };
+      case 'goto': {
+        if (statement.condition && !holds(statement.condition)) return { next: index + 1 };
+        const n = Math.round(numberOf(statement.target, vars, machine));
+        const target = commands.findIndex(c => c.sequence === n && c.program === cmd.program);
+        if (target === -1) throw new MacroError(`GOTO${n}: secuencia N${n} no encontrada`);
+        if (target === index) throw new MacroError(`GOTO${n} salta a su propio bloque (bucle sin fin)`);
+        return { next: target };
+      }
+      // Loops the parser couldn't pair stop the program instead of jumping nowhere
+      case 'while':
+        if (statement.end < 0) throw new MacroError(`WHILE ... DO${statement.loop} sin END${statement.loop}`);
+        return { next: holds(statement.condition) ? index + 1 : statement.end + 1 };
+      case 'end':
+        if (statement.start < 0) throw new MacroError(`END${statement.loop} sin WHILE ... DO${statement.loop} abierto`);
+        return { next: statement.start };
+    }
+  } catch (e) {
+    return { next: index + 1, error: runtimeError(e, cmd) };
+  }
+};
@@ -0,0 +1,119 @@
+import { ArcData, PathSegment } from '../types';
+import { arcSweep } from './arcInterpolation';
+
+/** Default G00 traverse rate (mm/min) */
+export const DEFAULT_RAPID_RATE = 8000;
+
+/** Spindle limit used when G96 asks for more than the machine can give */
+export const MAX_SPINDLE_RPM = 4000;
+
+/** Programmed and compensated tool position along a path */
+export interface MotionPoint {
+  x: number;
+  z: number;
+  cx: number;
+  cz: number;
+}
+
+export const endPoint = (seg: PathSegment): MotionPoint => ({
+  x: seg.x,
+  z: seg.z,
+  cx: seg.cx !== undefined ? seg.cx : seg.x,
+  cz: seg.cz !== undefined ? seg.cz : seg.z
+});
+
+/**
+ * Spindle speed in rpm. With G96 S is the surface speed (m/min) and the speed
+ * follows the diameter being cut, capped by the G50 clamp and the machine maximum.
+ */
+export const spindleRpm = (s: number, css: boolean, diameter: number, clamp?: number): number => {
+  if (!css) return s;
+  const max = Math.min(MAX_SPINDLE_RPM, clamp ?? MAX_SPINDLE_RPM);
+  const d = Math.abs(diameter);
+  if (d < 0.001) return max;
+  return Math.min(max, (1000 * s) / (Math.PI * d));
+};
+
+/**
+ * True when G96 would need more rpm than allowed at this diameter, so the
+ * actual surface speed falls below the programmed one.
+ */
+export const isSpindleClamped = (s: number, css: boolean, diameter: number, clamp?: number): boolean => {
+  if (!css || s <= 0) return false;
+  const max = Math.min(MAX_SPINDLE_RPM, clamp ?? MAX_SPINDLE_RPM);
+  const d = Math.abs(diameter);
+  return d < 0.001 || (1000 * s) / (Math.PI * d) > max;
+};
+
+/**
+ * Feed in mm/min. G99 (per revolution) multiplies F by the spindle speed;
+ * G98 (per minute) uses F as is.
+ */
+export const feedPerMinute = (f: number, perRev: boolean, rpm: number): number => (perRev ? f * rpm : f);
+
+/**
+ * Length (mm) travelled by the tool tip along a segment. X is a diameter, so
+ * radial travel is half the X increment; arcs use their swept length. When
+ * both ends carry a compensated point (G41/G42) its travel is measured, as
+ * that is what the slides move.
+ */
+export const segmentLength = (from: { x: number; z: number; cx?: number; cz?: number }, seg: PathSegment): number => {
+  if (from.cx !== undefined && from.cz !== undefined && seg.cx !== undefined && seg.cz !== undefined) {
+    const start = { x: from.cx, z: from.cz };
+    const end = { x: seg.cx, z: seg.cz };
+    const arc = seg.compArc ?? seg.arc;
+    if (arc) return Math.abs(arcSweep(start, end, arc).sweep) * arc.radius;
+    return Math.sqrt((end.z - start.z) ** 2 + ((end.x - start.x) / 2) ** 2);
+  }
+  if (seg.arc) return Math.abs(arcSweep(from, seg, seg.arc).sweep) * seg.arc.radius;
+  const dz = seg.z - from.z;
+  const dr = (seg.x - from.x) / 2;
+  return Math.sqrt(dz * dz + dr * dr);
+};
+
+/**
+ * Time (s) to run a segment: rapids at the traverse rate, cuts at their feed
+ * scaled by the feed override (%). A cut with no feed left (override at 0)
+ * never ends.
+ */
+export const segmentDuration = (
+  from: { x: number; z: number },
+  seg: PathSegment,
+  rapidRate: number,
+  feedOverride = 100
+): number => {
+  const rate = seg.type === 'rapid' ? rapidRate : ((seg.feed ?? 0) * feedOverride) / 100;
+  const length = segmentLength(from, seg);
+  if (length < 0.0001) return 0;
+  if (rate <= 0) return Infinity;
+  return length / (rate / 60);
+};
+
+// Point at fraction t of an arc's sweep from `from`
+const alongArc = (from: { x: number; z: number }, to: { x: number; z: number }, arc: ArcData, t: number) => {
+  const { startAngle, sweep } = arcSweep(from, to, arc);
+  const a = startAngle + sweep * t;
+  return { x: (arc.centerX / 2 + Math.sin(a) * arc.radius) * 2, z: arc.centerZ + Math.cos(a) * arc.radius };
+};
+
+/**
+ * Position at fraction t (0..1) of a segment. Arcs are followed around their
+ * center; the compensated point follows its own arc (`compArc`).
+ */
+export const pointAlong = (from: MotionPoint, seg: PathSegment, t: number): MotionPoint => {
+  const to = endPoint(seg);
+  if (t >= 1) return to;
+
+  if (seg.arc) {
+    const point = alongArc(from, to, seg.arc, t);
+    const comp = alongArc({ x: from.cx, z: from.cz }, { x: to.cx, z: to.cz }, seg.compArc ?? seg.arc, t);
+    return { ...point, cx: comp.x, cz: comp.z };
+  }
+
+  return {
+    x: from.x + (to.x - from.x) * t,
+    z: from.z + (to.z - from.z) * t,
+    cx: from.cx + (to.cx - from.cx) * t,
+    cz: from.cz + (to.cz - from.cz) * t
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { TOOLS } from '../constants';
+import { parseGCode } from './gcodeParser';
+import { MachineConfig, simulateProgram } from './simulationKernel';
+
+const MACHINE: MachineConfig = { home: { x: 100, z: 50 }, stockDiameter: 40, stockLength: 150, material: 'Steel' };
+
+// T0101 has a 0.8 mm nose radius, tip 3
+const contour = (profile: string) => simulateProgram(parseGCode(`T0101\nG97 S1000 M03\nG00 X42 Z2\nG42 G01 X30 Z0 F0.2\n${profile}\nG40 G00 X50 Z5\nM30`), MACHINE, TOOLS);
+
+describe('tool nose radius compensation', () => {
+  it('keeps the imaginary tip on the line along the axes and offsets it on a taper', () => {
+    const result = contour('Z-10\nX36 Z-13\nX42');
+    expect(result.alarm).toBeUndefined();
+    const turn = result.path.find(seg => seg.type === 'cut' && seg.z === -10)!;
+    const taper = result.path.find(seg => seg.type === 'cut' && seg.z === -13)!;
+    expect(turn.cx).toBeCloseTo(30);
+    // 45° chamfer: the imaginary tip sits r·(1 − tan 22.5°) off the line, radially
+    expect(taper.cx).toBeCloseTo(36 - 2 * 0.8 * (1 - Math.tan(Math.PI / 8)));
+  });
+
+  it('raises alarm 041 for a groove narrower than the nose', () => {
+    const result = contour('Z-10\nX26\nZ-11\nX30\nZ-20\nX42');
+    expect(result.alarm?.message).toBe('ALARMA 041 INTERFERENCIA: el radio de punta R0.8 del corrector 1 no cabe en el contorno con G42 en línea 7');
+  });
+
+  it('fits a groove wider than the nose', () => {
+    expect(contour('Z-10\nX26\nZ-13\nX30\nZ-20\nX42').alarm).toBeUndefined();
+  });
+});
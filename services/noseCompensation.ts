@@ -0,0 +1,193 @@
+import { ArcData, ToolOffset } from '../types';
+
+/** G42 keeps the tool to the right of the contour, looking along the motion; G41 to the left */
+export type CompensationSide = 'LEFT' | 'RIGHT';
+
+/** A programmed move (X diameters); `arc` for G02/G03 */
+export interface ProgrammedMove {
+  start: { x: number; z: number };
+  end: { x: number; z: number };
+  arc?: ArcData;
+}
+
+/** Nose center path of one compensated block */
+export interface CompensatedMove {
+  approach?: { x: number; z: number }; // Onto the offset circle first, when an arc starts away from it
+  end: { x: number; z: number };
+  arc?: ArcData; // Followed by the nose center up to `end`
+  corner: { x: number; z: number }[]; // Straight moves around a sharp outer corner, after `end`
+  gouge?: boolean; // The nose doesn't fit: Fanuc alarm 041
+}
+
+// Points and directions in the (Z, radius) plane
+interface Vec {
+  z: number;
+  r: number;
+}
+
+interface Element {
+  start: Vec;
+  end: Vec;
+  center?: Vec;
+  radius?: number;
+  ccw?: boolean;
+}
+
+const EPSILON = 1e-6;
+
+// Fanuc imaginary tip numbers: direction from the nose center to the point the
+// program drives (the tip touched off on both axes). 0 and 9 drive the center.
+const TIP_VECTORS: Record<number, Vec> = {
+  1: { z: 1, r: 1 }, 2: { z: -1, r: 1 }, 3: { z: -1, r: -1 }, 4: { z: 1, r: -1 },
+  5: { z: 1, r: 0 }, 6: { z: 0, r: 1 }, 7: { z: -1, r: 0 }, 8: { z: 0, r: -1 }
+};
+
+const vec = (p: { x: number; z: number }): Vec => ({ z: p.z, r: p.x / 2 });
+const point = (v: Vec) => ({ x: v.r * 2, z: v.z });
+const add = (a: Vec, b: Vec, k = 1): Vec => ({ z: a.z + b.z * k, r: a.r + b.r * k });
+const sub = (a: Vec, b: Vec): Vec => ({ z: a.z - b.z, r: a.r - b.r });
+const dot = (a: Vec, b: Vec) => a.z * b.z + a.r * b.r;
+const cross = (a: Vec, b: Vec) => a.z * b.r - a.r * b.z;
+const length = (a: Vec) => Math.sqrt(a.z * a.z + a.r * a.r);
+const unit = (a: Vec): Vec => {
+  const l = length(a);
+  return l < EPSILON ? { z: 0, r: 0 } : { z: a.z / l, r: a.r / l };
+};
+
+/** Offset (X as a diameter) from the nose center to the programmed point, for an offset's R and T */
+export const tipOffset = ({ noseRadius, tipDirection }: Pick<ToolOffset, 'noseRadius' | 'tipDirection'>): { x: number; z: number } => {
+  const v = TIP_VECTORS[tipDirection] ?? { z: 0, r: 0 };
+  return { x: v.r * noseRadius * 2, z: v.z * noseRadius };
+};
+
+const elementOf = (move: ProgrammedMove): Element => ({
+  start: vec(move.start),
+  end: vec(move.end),
+  ...(move.arc ? { center: { z: move.arc.centerZ, r: move.arc.centerX / 2 }, radius: move.arc.radius, ccw: move.arc.direction === 'CCW' } : {})
+});
+
+// Direction of travel at a point of the element
+const tangent = (el: Element, at: Vec): Vec => {
+  if (!el.center) return unit(sub(el.end, el.start));
+  const u = unit(sub(at, el.center));
+  return el.ccw ? { z: -u.r, r: u.z } : { z: u.r, r: -u.z };
+};
+
+const toolSide = (t: Vec, side: CompensationSide): Vec => (side === 'RIGHT' ? { z: t.r, r: -t.z } : { z: -t.r, r: t.z });
+
+// Path of the nose center along an element: a parallel line or a concentric arc;
+// null when a concave arc is tighter than the nose
+const offsetOf = (el: Element, side: CompensationSide, radius: number): Element | null => {
+  const start = toolSide(tangent(el, el.start), side);
+  const end = toolSide(tangent(el, el.end), side);
+  const offset = { ...el, start: add(el.start, start, radius), end: add(el.end, end, radius) };
+  if (!el.center) return offset;
+  const outward = dot(start, sub(el.start, el.center)) > 0;
+  const r = el.radius! + (outward ? radius : -radius);
+  return r > EPSILON ? { ...offset, radius: r } : null;
+};
+
+const lineCircle = (p: Vec, q: Vec, center: Vec, radius: number): Vec[] => {
+  const d = unit(sub(q, p));
+  if (length(d) < EPSILON) return [];
+  const f = sub(p, center);
+  const b = dot(f, d);
+  const disc = b * b - (dot(f, f) - radius * radius);
+  if (disc < -EPSILON) return [];
+  const root = Math.sqrt(Math.max(0, disc));
+  return [add(p, d, -b - root), add(p, d, -b + root)];
+};
+
+const circleCircle = (c1: Vec, r1: number, c2: Vec, r2: number): Vec[] => {
+  const d = length(sub(c2, c1));
+  if (d < EPSILON || d > r1 + r2 + EPSILON || d < Math.abs(r1 - r2) - EPSILON) return [];
+  const a = (r1 * r1 - r2 * r2 + d * d) / (2 * d);
+  const h = Math.sqrt(Math.max(0, r1 * r1 - a * a));
+  const u = unit(sub(c2, c1));
+  const base = add(c1, u, a);
+  const normal = { z: -u.r, r: u.z };
+  return [add(base, normal, h), add(base, normal, -h)];
+};
+
+// Crossings of two offsets taken as whole lines and circles
+const crossings = (a: Element, b: Element): Vec[] => {
+  if (a.center && b.center) return circleCircle(a.center, a.radius!, b.center, b.radius!);
+  if (a.center || b.center) {
+    const [line, circle] = a.center ? [b, a] : [a, b];
+    return lineCircle(line.start, line.end, circle.center!, circle.radius!);
+  }
+  const da = sub(a.end, a.start);
+  const db = sub(b.end, b.start);
+  const den = cross(da, db);
+  if (Math.abs(den) < EPSILON) return [];
+  return [add(a.start, da, cross(sub(b.start, a.start), db) / den)];
+};
+
+// Where the nose center leaves element `a` for `b`, given their offsets: the
+// crossing of the offsets, or round the outside of a corner sharper than 90°
+// (Fanuc type C). Null when an inside corner has no crossing.
+const cornerOf = (a: Element, oa: Element, b: Element, ob: Element, side: CompensationSide, radius: number): { end: Vec; around: Vec[] } | null => {
+  const ta = tangent(a, a.end);
+  const tb = tangent(b, b.start);
+  const turn = cross(ta, tb);
+  const along = dot(ta, tb);
+  if (Math.abs(turn) < EPSILON && along > 0) return { end: oa.end, around: length(sub(oa.end, ob.start)) > EPSILON ? [ob.start] : [] };
+
+  const outside = Math.abs(turn) < EPSILON || (side === 'RIGHT' ? turn > 0 : turn < 0);
+  if (outside && along < 0) return { end: oa.end, around: [add(oa.end, ta, radius), add(ob.start, tb, -radius), ob.start] };
+
+  const found = crossings(oa, ob).sort((p, q) => length(sub(p, oa.end)) - length(sub(q, oa.end)))[0];
+  if (found) return { end: found, around: [] };
+  return outside ? { end: oa.end, around: [ob.start] } : null;
+};
+
+// Angle swept from one point to another around the element's center, in its direction
+const sweepOf = (el: Element, from: Vec, to: Vec): number => {
+  const c = el.center!;
+  let sweep = Math.atan2(to.r - c.r, to.z - c.z) - Math.atan2(from.r - c.r, from.z - c.z);
+  if (!el.ccw) sweep = -sweep;
+  while (sweep <= 1e-9) sweep += Math.PI * 2;
+  while (sweep > Math.PI * 2 + 1e-9) sweep -= Math.PI * 2;
+  return sweep;
+};
+
+// The nose center would run its element backwards: the contour is narrower than the nose
+const runsBackwards = (el: Element, from: Vec, to: Vec): boolean => {
+  if (!el.center) return dot(sub(to, from), sub(el.end, el.start)) < -EPSILON;
+  return sweepOf(el, from, to) - sweepOf(el, el.start, el.end) > Math.PI;
+};
+
+/**
+ * Nose center path of a block under G41/G42, with `radius` the nose radius.
+ * The block ends where its offset meets the offset of the next move (`next`,
+ * null when it can't be read ahead, which ends the block square to its own
+ * end). `start` is the nose center, null on the start-up block, which goes
+ * straight to the start of the next move's offset.
+ */
+export const compensateMove = (
+  move: ProgrammedMove,
+  next: ProgrammedMove | null,
+  side: CompensationSide,
+  radius: number,
+  start: { x: number; z: number } | null
+): CompensatedMove => {
+  const el = elementOf(move);
+  const offset = offsetOf(el, side, radius);
+  if (!offset) return { end: move.end, corner: [], gouge: true };
+  const nextEl = next ? elementOf(next) : null;
+  const nextOffset = nextEl ? offsetOf(nextEl, side, radius) : null;
+  if (!start) return { end: point(nextOffset ? nextOffset.start : offset.end), corner: [] };
+
+  const corner = nextEl && nextOffset ? cornerOf(el, offset, nextEl, nextOffset, side, radius) : { end: offset.end, around: [] };
+  if (!corner) return { end: move.end, corner: [], gouge: true };
+  const from = vec(start);
+  const approach = el.center && Math.abs(length(sub(from, el.center)) - offset.radius!) > 1e-4 ? offset.start : undefined;
+  if (runsBackwards(offset, approach ?? from, corner.end)) return { end: move.end, corner: [], gouge: true };
+
+  return {
+    approach: approach && point(approach),
+    end: point(corner.end),
+    arc: move.arc && { ...move.arc, radius: offset.radius! },
+    corner: corner.around.map(point)
+  };
+};
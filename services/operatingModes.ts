@@ -0,0 +1,59 @@
+/** Positions of the mode switch on the operator panel */
+export type OperatingMode = 'EDIT' | 'MEMORY' | 'MDI' | 'JOG' | 'HANDLE' | 'REFERENCE';
+
+/**
+ * Modes where the operator moves the machine: the tool stays where it is left
+ * and keeps cutting the same stock between moves.
+ */
+export const MANUAL_MODES: OperatingMode[] = ['MDI', 'JOG', 'HANDLE', 'REFERENCE'];
+
+/** Steps of incremental jog, mm per press (X as a diameter) */
+export const JOG_INCREMENTS = [0.001, 0.01, 0.1, 1, 10] as const;
+
+/** Handwheel steps (×1, ×10, ×100), mm per notch */
+export const HANDLE_INCREMENTS = JOG_INCREMENTS.slice(0, 3);
+
+/** Continuous jog feed at 100 % override (mm/min) */
+export const JOG_FEED = 600;
+
+/** Program number the MDI buffer runs as, ahead of the library so it can call subprograms */
+export const MDI_PROGRAM = 0;
+
+/** Stroke of the machine, in scene coordinates (X as a diameter) */
+export interface SoftLimits {
+  xMin: number;
+  xMax: number;
+  zMin: number;
+  zMax: number;
+}
+
+// Travel around the reference point, which sits just inside the + end of both axes
+const OVERTRAVEL_PAST_HOME = { x: 10, z: 5 };
+const TRAVEL = { x: 114, z: 235 }; // The tip can cross the spindle axis by a few mm and reach past the chuck face
+
+/** Soft limits of a machine with its reference point at `home` */
+export const softLimitsAt = (home: { x: number; z: number }): SoftLimits => ({
+  xMin: home.x + OVERTRAVEL_PAST_HOME.x - TRAVEL.x,
+  xMax: home.x + OVERTRAVEL_PAST_HOME.x,
+  zMin: home.z + OVERTRAVEL_PAST_HOME.z - TRAVEL.z,
+  zMax: home.z + OVERTRAVEL_PAST_HOME.z
+});
+
+/** Limit a point lies beyond (X+, X−, Z+, Z−), or null inside the stroke */
+export const overtravel = (p: { x: number; z: number }, limits: SoftLimits): string | null => {
+  if (p.x > limits.xMax) return 'X+';
+  if (p.x < limits.xMin) return 'X−';
+  if (p.z > limits.zMax) return 'Z+';
+  if (p.z < limits.zMin) return 'Z−';
+  return null;
+};
+
+/** A manual move cut short at the soft limits, and the limit it ran into */
+export const limitStop = <P extends { x: number; z: number }>(to: P, limits: SoftLimits): { to: P; overtravel: string | null } => ({
+  to: {
+    ...to,
+    x: Math.min(limits.xMax, Math.max(limits.xMin, to.x)),
+    z: Math.min(limits.zMax, Math.max(limits.zMin, to.z))
+  },
+  overtravel: overtravel(to, limits)
+});
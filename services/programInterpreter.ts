@@ -0,0 +1,663 @@
+import { ArcData, GCodeCommand, ManualPosition, ModalState, PathSegment, SimulationState, StockProfile, ThreadData, ToolConfig, ToolOffsets, WorkOffsets } from '../types';
+import { resolveArc } from './arcInterpolation';
+import { expandPeckCycle, expandRoughingCycle, expandThreadingCycle } from './cycleEngine';
+import { DEFAULT_MODAL_STATE, SUPPORTED_G_CODES, applyModalCode, findBlockRange } from './gcodeParser';
+import { checkSegment, COLLISION_DESCRIPTIONS } from './collisionDetection';
+import { MAX_EXECUTED_BLOCKS, MacroVariables, resolveBlocks, resolveWords, runMacro, runawayError } from './macroEngine';
+import { MotionPoint, endPoint, feedPerMinute, pointAlong, segmentLength, spindleRpm } from './motionPlanner';
+import { ProgrammedMove, compensateMove, tipOffset } from './noseCompensation';
+import { SoftLimits, overtravel } from './operatingModes';
+import { CallFrame, callSubprogram, continueAt, returnFromSubprogram } from './programLibrary';
+import { createStock, cutStock, stockRadiusAt } from './stockModel';
+import { offsetShift, parseToolCode } from './toolOffsets';
+import { workOrigin } from './workCoordinates';
+
+/** Steps run between two saved interpreter states */
+export const SNAPSHOT_INTERVAL = 200;
+
+export interface InterpreterConfig {
+  commands: GCodeCommand[];
+  tools: ToolConfig[];
+  home: { x: number; z: number }; // Machine reference point, in scene coordinates
+  workOffsets: WorkOffsets;
+  toolOffsets: ToolOffsets;
+  stockDiameter: number;
+  stockLength: number;
+  // MDI: blocks run from where the operator left the machine, cutting the stock as it is
+  start?: ManualPosition; // Tool tip in scene coordinates, tool and offset in the turret
+  spindle?: { dir: 'CW' | 'CCW' | 'STOP'; speed: number };
+  stock?: StockProfile;
+  limits?: SoftLimits; // Stroke of the tool tip, in scene coordinates
+}
+
+// Machine state between two commands, in execution order
+interface Context {
+  next: number; // Next command to run
+  steps: number; // Commands run at top level so far
+  x: number; // Position in the active work coordinate system, as programmed
+  z: number;
+  shift: { x: number; z: number }; // G50 X/Z: shift of every work coordinate system
+  s: number;
+  tool: number;
+  spindleDirection: 'CW' | 'CCW' | 'STOP';
+  offset: number; // Active tool offset number, 0 for none
+  coolant: 'OFF' | 'MIST' | 'FLOOD';
+  // Modal groups in execution order: a G70 replays its profile under the modes
+  // active at the G70, which the parser's per-block snapshots can't know
+  modal: ModalState;
+  maxRpm?: number; // G50 S spindle clamp
+  feed: number;
+  // First block of two-block cycles (e.g. G71 U2 R1), keyed by G-code
+  cycleSetup: Record<number, Record<string, number>>;
+  path: PathSegment[];
+  threads: ThreadData[];
+  stock: StockProfile; // Cut by every committed segment
+  vars: MacroVariables; // Changed in place by macro blocks
+  calls: CallFrame[]; // Open M98 calls, innermost last
+  nose: { x: number; z: number } | null; // Nose center under G41/G42, once a start-up block has run
+}
+
+interface Snapshot extends Omit<Context, 'path' | 'threads'> {
+  pathLength: number;
+  threadsLength: number;
+}
+
+export interface BlockRun {
+  step: number; // Position of the block in execution order
+  index: number; // Command run
+  next: number; // Command run after it; commands.length once the program has ended
+  state: SimulationState; // Once the block has run; path and threads up to its end
+  blockStart: number; // Path index of the block's first segment
+  blockStock: StockProfile; // Stock before the block
+  dwell: number; // G04 seconds
+}
+
+export type BlockResult = BlockRun | { error: string };
+
+/**
+ * A program being interpreted. Blocks are numbered by step, their position in
+ * execution order, since GOTO and WHILE loops run some commands many times.
+ * The context only moves forward; going back restarts from the latest
+ * snapshot before the wanted step.
+ */
+export interface ProgramRun {
+  config: InterpreterConfig;
+  context: Context;
+  snapshots: Snapshot[]; // Ascending by `steps`
+  trace: number[]; // Command run at each step so far; a final commands.length marks the end of the program
+  cached: BlockRun | null;
+  broken: boolean; // An alarm left the context halfway through a command
+  engaged: number[]; // Millimetres of each cut segment travelled inside the stock, by path index
+}
+
+const snapshotOf = (ctx: Context): Snapshot => {
+  const { path, threads, ...rest } = ctx;
+  return { ...rest, cycleSetup: { ...ctx.cycleSetup }, vars: { ...ctx.vars }, calls: [...ctx.calls], pathLength: path.length, threadsLength: threads.length };
+};
+
+// Tool offset shift of the active tool and offset number
+const shiftOf = (run: ProgramRun) =>
+  offsetShift(run.config.toolOffsets[run.context.offset], run.config.tools.find(t => t.id === run.context.tool));
+
+// Part zero of the active work coordinate system, in scene coordinates
+const originOf = (run: ProgramRun) => workOrigin(run.config.home, run.config.workOffsets, run.context.modal.coordinateSystem, run.context.shift);
+
+// Where programmed zero puts the tool tip: part zero moved by the active tool offset, less the tool's reach
+const placementOf = (run: ProgramRun) => {
+  const origin = originOf(run);
+  const shift = shiftOf(run);
+  return { x: origin.x + shift.x, z: origin.z + shift.z };
+};
+
+// Changing the work system or the tool offset doesn't move the tool: its readings change
+const keepPosition = (run: ProgramRun, before: { x: number; z: number }) => {
+  const ctx = run.context;
+  const after = placementOf(run);
+  if (after.x === before.x && after.z === before.z) return;
+  ctx.x += before.x - after.x;
+  ctx.z += before.z - after.z;
+  ctx.nose = null;
+};
+
+// Tool tip position the program starts from: home, or where MDI finds the tool
+const startOf = (config: InterpreterConfig) => config.start ?? config.home;
+
+export const createProgramRun = (config: InterpreterConfig): ProgramRun => {
+  const start = config.start ?? { ...config.home, tool: 1, offset: 0 };
+  const context: Context = {
+    next: 0, steps: 0, x: 0, z: 0, shift: { x: 0, z: 0 }, s: config.spindle?.speed ?? 0, tool: start.tool, spindleDirection: config.spindle?.dir ?? 'STOP', offset: start.offset, coolant: 'OFF',
+    modal: DEFAULT_MODAL_STATE, feed: 0, cycleSetup: {}, path: [], threads: [], stock: config.stock ?? createStock(config.stockDiameter, config.stockLength), vars: {}, calls: [], nose: null
+  };
+  const run: ProgramRun = { config, context, snapshots: [], trace: [], cached: null, broken: false, engaged: [] };
+  const placement = placementOf(run);
+  context.x = start.x - placement.x;
+  context.z = start.z - placement.z;
+  run.snapshots.push(snapshotOf(context));
+  return run;
+};
+
+/** True when two tool tables differ only in wear, which does not change the path */
+export const sameToolGeometry = (a: ToolConfig[], b: ToolConfig[]): boolean =>
+  a === b || (a.length === b.length && a.every((tool, i) => {
+    const { wear: _a, ...geometryA } = tool;
+    const { wear: _b, ...geometryB } = b[i];
+    return JSON.stringify(geometryA) === JSON.stringify(geometryB);
+  }));
+
+// Moves a segment laid out in work coordinates to the scene
+const toScene = (seg: PathSegment, origin: { x: number; z: number }) => {
+  const shiftArc = (arc?: ArcData) => arc && { ...arc, centerX: arc.centerX + origin.x, centerZ: arc.centerZ + origin.z };
+  seg.x += origin.x;
+  seg.z += origin.z;
+  if (seg.cx !== undefined) seg.cx += origin.x;
+  if (seg.cz !== undefined) seg.cz += origin.z;
+  seg.arc = shiftArc(seg.arc);
+  seg.compArc = shiftArc(seg.compArc);
+};
+
+// Moves the new segments from work coordinates to the scene, tags them with their
+// tool, block and feed, checks them for collisions and cuts them into the stock
+// Millimetres of a segment travelled inside the stock it started from
+const engagedLength = (start: MotionPoint, seg: PathSegment, stock: StockProfile): number => {
+  const steps = Math.max(1, Math.ceil(segmentLength(start, seg) / stock.resolution));
+  let engaged = 0;
+  let prev = start;
+  for (let s = 1; s <= steps; s++) {
+    const pt = pointAlong(start, seg, s / steps);
+    if (pt.x / 2 <= stockRadiusAt(stock, pt.z) + 0.5) engaged += Math.sqrt((pt.x - prev.x) ** 2 + (pt.z - prev.z) ** 2);
+    prev = pt;
+  }
+  return engaged;
+};
+
+const commitSegments = (run: ProgramRun, from: number, source: GCodeCommand, line: number): string | null => {
+  const ctx = run.context;
+  const { tools, limits } = run.config;
+  const runStart = startOf(run.config);
+  const block = source.sequence !== undefined ? `N${source.sequence}` : `línea ${source.line}`;
+  const origin = placementOf(run);
+  for (let i = from; i < ctx.path.length; i++) {
+    const seg = ctx.path[i];
+    toScene(seg, origin);
+    seg.tool = ctx.tool;
+    seg.line = line;
+    seg.program = source.program;
+    const beyond = limits && overtravel(seg, limits);
+    if (beyond) return `ALARMA OT0500: sobrecarrera ${beyond} (límite de software) en ${block} (X${seg.x.toFixed(3)} Z${seg.z.toFixed(3)})`;
+    const prev = i > 0 ? ctx.path[i - 1] : null;
+    const start = prev ? { x: prev.cx !== undefined ? prev.cx : prev.x, z: prev.cz !== undefined ? prev.cz : prev.z } : runStart;
+    if (seg.type === 'cut') {
+      const startX = prev ? prev.x : runStart.x;
+      const perRev = ctx.modal.feedMode === 99;
+      seg.feed = feedPerMinute(ctx.feed, perRev, spindleRpm(ctx.s, ctx.modal.spindleMode === 96, (startX + seg.x) / 2, ctx.maxRpm));
+      if (seg.feed <= 0) return `Error Avance: avance nulo (F${ctx.feed}${perRev ? ` por vuelta, S${ctx.s}` : ''}) en ${block}`;
+    }
+    if (seg.type === 'cut') run.engaged[i] = engagedLength(prev ? endPoint(prev) : { x: runStart.x, z: runStart.z, cx: runStart.x, cz: runStart.z }, seg, ctx.stock);
+    const after = cutStock(ctx.stock, [seg], tools, start);
+    const hit = checkSegment(start, seg, tools.find(t => t.id === ctx.tool), ctx.stock, after, ctx.threads);
+    if (hit) return `ALARMA COLISIÓN: ${COLLISION_DESCRIPTIONS[hit.body]} en ${block} (X${hit.x.toFixed(3)} Z${hit.z.toFixed(3)})`;
+    ctx.stock = after;
+  }
+  return null;
+};
+
+interface Outcome {
+  next: number; // Next command in execution order
+  dwell: number;
+  profile?: { start: number; end: number }; // G70: blocks to replay
+  error?: string;
+}
+
+const MOTION_CODES = [0, 1, 2, 3, 32, 33];
+
+// Commands a compensated block reads ahead for the next move, past blocks without motion
+const LOOKAHEAD = 8;
+
+// G-codes that may sit between two compensated moves without breaking the contour
+const LOOKAHEAD_MODAL_CODES = [4, 18, 20, 21, 90, 91, 96, 97, 98, 99];
+
+// Next move after command i, up to command `last`, with the values of now: the
+// end of the compensated block depends on it. Null when something else comes
+// first (macro statements, calls, cycles, a change of G41/G42/G40).
+const nextMove = (run: ProgramRun, i: number, last: number): ProgrammedMove | null => {
+  const ctx = run.context;
+  const { commands } = run.config;
+  let modal = ctx.modal;
+  for (let j = i + 1; j <= Math.min(last, i + LOOKAHEAD); j++) {
+    const source = commands[j];
+    if (source.type === 'MACRO' || source.program !== commands[i].program) return null;
+    const { command, error } = resolveWords(source, ctx.vars, ctx);
+    if (error) return null;
+    if (command.type === 'M' && (command.code === 30 || command.code === 98 || command.code === 99)) return null;
+    if (command.type !== 'G') continue;
+    const code = command.modalMotion ? modal.motion : command.code;
+    modal = applyModalCode(modal, code);
+    if (modal.compensation !== ctx.modal.compensation) return null;
+    if (code === undefined || !MOTION_CODES.includes(code)) {
+      if (code === undefined || LOOKAHEAD_MODAL_CODES.includes(code)) continue;
+      return null;
+    }
+
+    const { X, U, Z, W } = command.params;
+    const absolute = modal.distance === 90;
+    const start = { x: ctx.x, z: ctx.z };
+    const end = {
+      x: (X !== undefined ? (absolute ? X : ctx.x + X) : ctx.x) + (U ?? 0),
+      z: (Z !== undefined ? (absolute ? Z : ctx.z + Z) : ctx.z) + (W ?? 0)
+    };
+    if (code === 2 || code === 3) {
+      const resolved = resolveArc(start, end, command.params, code === 2 ? 'CW' : 'CCW', command.line);
+      return resolved.arc ? { start, end, arc: resolved.arc } : null;
+    }
+    if (Math.abs(end.x - start.x) > 1e-6 || Math.abs(end.z - start.z) > 1e-6) return { start, end };
+  }
+  return null;
+};
+
+// Lógica de Compensación de Radio G41/G42: el centro de la punta recorre el contorno
+// desplazado su radio y la máquina lleva la punta imaginaria. Radio R y punta T1-T9
+// salen del corrector activo. El bloque de arranque y el de G40 entran y salen en recta.
+const compensatedSegments = (run: ProgramRun, i: number, last: number, move: ProgrammedMove, type: 'cut' | 'rapid', line: number): { segments: PathSegment[]; error?: string } => {
+  const ctx = run.context;
+  const { x, z } = move.end;
+  const offset = run.config.toolOffsets[ctx.offset];
+  const compensation = ctx.modal.compensation;
+  if (!offset || offset.noseRadius <= 0 || (compensation === 40 && !ctx.nose)) {
+    ctx.nose = null;
+    return { segments: [{ x, z, cx: x, cz: z, type, arc: move.arc }] };
+  }
+  if (move.arc && (compensation === 40 || !ctx.nose)) {
+    const action = compensation === 40 ? 'cancelarse' : 'activarse';
+    return { segments: [], error: `Error Compensación: G${compensation} debe ${action} en un bloque recto (G00/G01), no en un arco, en línea ${line}` };
+  }
+  if (compensation === 40) {
+    ctx.nose = null;
+    return { segments: [{ x, z, cx: x, cz: z, type }] };
+  }
+
+  const tip = tipOffset(offset);
+  const machine = (p: { x: number; z: number }) => ({ cx: p.x + tip.x, cz: p.z + tip.z });
+  // Sin desplazamiento la punta se queda donde está
+  if (ctx.nose && !move.arc && Math.abs(x - move.start.x) < 1e-6 && Math.abs(z - move.start.z) < 1e-6) {
+    return { segments: [{ x, z, ...machine(ctx.nose), type }] };
+  }
+
+  const result = compensateMove(move, nextMove(run, i, last), compensation === 42 ? 'RIGHT' : 'LEFT', offset.noseRadius, ctx.nose);
+  if (result.gouge) {
+    return { segments: [], error: `ALARMA 041 INTERFERENCIA: el radio de punta R${offset.noseRadius} del corrector ${ctx.offset} no cabe en el contorno con G${compensation} en línea ${line}` };
+  }
+  const segments: PathSegment[] = [];
+  if (result.approach) segments.push({ x: move.start.x, z: move.start.z, ...machine(result.approach), type });
+  const compArc = result.arc && { ...result.arc, centerX: result.arc.centerX + tip.x, centerZ: result.arc.centerZ + tip.z };
+  segments.push({ x, z, ...machine(result.end), type, arc: move.arc, compArc });
+  result.corner.forEach(p => segments.push({ x, z, ...machine(p), type }));
+  ctx.nose = result.corner.length > 0 ? result.corner[result.corner.length - 1] : result.end;
+  return { segments };
+};
+
+// Runs one command on the context. `replaying` is set for the profile blocks of a G70;
+// a compensated block reads ahead up to command `last`.
+const execute = (run: ProgramRun, i: number, replaying: boolean, last = run.config.commands.length - 1): Outcome => {
+  const ctx = run.context;
+  const { commands, tools, home } = run.config;
+  const fail = (error: string): Outcome => ({ next: i + 1, dwell: 0, error });
+
+  // Bloques de macro: asignan variables o deciden el siguiente bloque (GOTO, WHILE/END)
+  if (commands[i].type === 'MACRO') {
+    const { next, error } = runMacro(commands, i, ctx.vars, ctx);
+    return { next, dwell: 0, error };
+  }
+  // Las palabras con variables (X#1) toman su valor al ejecutarse el bloque
+  const resolved = resolveWords(commands[i], ctx.vars, ctx);
+  if (resolved.error) return fail(resolved.error);
+  // "X50" sin código de movimiento usa el modal activo, que en un subprograma viene del programa que lo llama
+  const cmd = resolved.command.modalMotion ? { ...resolved.command, code: ctx.modal.motion } : resolved.command;
+
+  // Basic Validation
+  if (cmd.type === 'G' && cmd.code !== undefined && !SUPPORTED_G_CODES.includes(cmd.code)) {
+    return fail(`Error Sintaxis: G${cmd.code} no soportado en línea ${cmd.line}`);
+  }
+
+  if (cmd.type === 'G') {
+    const before = placementOf(run);
+    ctx.modal = applyModalCode(ctx.modal, cmd.code);
+    keepPosition(run, before);
+    if (cmd.code === 50 && cmd.params.S !== undefined) ctx.maxRpm = cmd.params.S;
+  }
+
+  // --- PREAJUSTE DE COORDENADAS G50 X/Z ---
+  // La posición actual pasa a leerse X/Z (U/W la desplazan) en todos los sistemas G54-G59
+  if (cmd.type === 'G' && cmd.code === 50 && ['X', 'Z', 'U', 'W'].some(w => cmd.params[w] !== undefined)) {
+    const { X, U, Z, W } = cmd.params;
+    const x = (X ?? ctx.x) + (U ?? 0);
+    const z = (Z ?? ctx.z) + (W ?? 0);
+    ctx.shift = { x: ctx.shift.x + ctx.x - x, z: ctx.shift.z + ctx.z - z };
+    ctx.x = x;
+    ctx.z = z;
+    ctx.nose = null;
+    return { next: i + 1, dwell: 0 };
+  }
+
+  if (cmd.params.F !== undefined) ctx.feed = cmd.params.F;
+
+  // --- SUBPROGRAMAS M98/M99 ---
+  if (cmd.type === 'M' && (cmd.code === 98 || cmd.code === 99)) {
+    if (replaying) return fail(`Error Ciclo G70: M${cmd.code} dentro de un perfil de acabado en línea ${cmd.line}`);
+    const flow = cmd.code === 98 ? callSubprogram(commands, i, cmd, ctx.calls) : returnFromSubprogram(commands, i, cmd, ctx.calls);
+    return { next: flow.next, dwell: 0, error: flow.error };
+  }
+
+  // --- PAUSA G04 ---
+  // X/U en segundos o P en milisegundos: no son coordenadas
+  if (cmd.type === 'G' && cmd.code === 4) {
+    return { next: i + 1, dwell: cmd.params.P !== undefined ? cmd.params.P / 1000 : (cmd.params.X ?? cmd.params.U ?? 0) };
+  }
+
+  // --- CICLOS DE DESBASTE G71/G72/G73 ---
+  if (cmd.type === 'G' && (cmd.code === 71 || cmd.code === 72 || cmd.code === 73)) {
+    if (cmd.params.P === undefined || cmd.params.Q === undefined) {
+      ctx.cycleSetup[cmd.code] = cmd.params;
+      return { next: i + 1, dwell: 0 };
+    }
+    const range = findBlockRange(commands, cmd.params.P, cmd.params.Q, cmd.program);
+    if (range.error) return fail(`Error Ciclo G${cmd.code}: ${range.error} en línea ${cmd.line}`);
+
+    const profile = resolveBlocks(commands.slice(range.start, range.end + 1), ctx.vars, ctx);
+    if (profile.error) return fail(profile.error);
+    const result = expandRoughingCycle(cmd.code, ctx.cycleSetup[cmd.code] || {}, cmd.params, profile.commands, { x: ctx.x, z: ctx.z }, cmd.line);
+    if (result.error) return fail(result.error);
+    ctx.path.push(...result.path);
+    ctx.nose = null;
+    // Al terminar el ciclo la ejecución continúa tras el bloque Q
+    return { next: Math.max(i, range.end) + 1, dwell: 0 };
+  }
+
+  // --- CICLO DE ROSCADO G76 ---
+  if (cmd.type === 'G' && cmd.code === 76) {
+    const isCycleBlock = cmd.params.X !== undefined || cmd.params.U !== undefined || cmd.params.Z !== undefined || cmd.params.W !== undefined;
+    if (!isCycleBlock) {
+      ctx.cycleSetup[76] = cmd.params;
+      return { next: i + 1, dwell: 0 };
+    }
+    const activeTool = tools.find(t => t.id === ctx.tool);
+    if (activeTool && activeTool.type !== 'threading') {
+      return fail(`Error Ciclo G76: la herramienta T${ctx.tool < 10 ? '0' + ctx.tool : ctx.tool} no es de roscar en línea ${cmd.line}`);
+    }
+    const result = expandThreadingCycle(ctx.cycleSetup[76] || {}, cmd.params, { x: ctx.x, z: ctx.z }, cmd.line);
+    if (result.error) return fail(result.error);
+    ctx.path.push(...result.path);
+    ctx.nose = null;
+    if (result.thread) {
+      const { zStart, zEnd, majorDiameter, minorDiameter } = result.thread;
+      const origin = placementOf(run);
+      ctx.threads.push({
+        ...result.thread, zStart: zStart + origin.z, zEnd: zEnd + origin.z,
+        majorDiameter: majorDiameter + origin.x, minorDiameter: minorDiameter + origin.x
+      });
+    }
+    return { next: i + 1, dwell: 0 };
+  }
+
+  // --- CICLOS DE RANURADO/TALADRADO G74/G75 ---
+  if (cmd.type === 'G' && (cmd.code === 74 || cmd.code === 75)) {
+    const isCycleBlock = cmd.params.X !== undefined || cmd.params.U !== undefined || cmd.params.Z !== undefined || cmd.params.W !== undefined;
+    if (!isCycleBlock) {
+      ctx.cycleSetup[cmd.code] = cmd.params;
+      return { next: i + 1, dwell: 0 };
+    }
+    const activeTool = tools.find(t => t.id === ctx.tool);
+    const toolWidth = activeTool && activeTool.type === 'grooving' ? activeTool.width : undefined;
+    const result = expandPeckCycle(cmd.code, ctx.cycleSetup[cmd.code] || {}, cmd.params, { x: ctx.x, z: ctx.z }, toolWidth, cmd.line);
+    if (result.error) return fail(result.error);
+    ctx.path.push(...result.path);
+    ctx.nose = null;
+    return { next: i + 1, dwell: 0 };
+  }
+
+  // --- CICLO DE ACABADO G70 ---
+  // Salta a los bloques P-Q y los ejecuta con su propio avance (F) y la compensación activa
+  if (cmd.type === 'G' && cmd.code === 70) {
+    if (cmd.params.P === undefined || cmd.params.Q === undefined) return fail(`Error Ciclo G70: faltan P/Q en línea ${cmd.line}`);
+    const range = findBlockRange(commands, cmd.params.P, cmd.params.Q, cmd.program);
+    if (range.error) return fail(`Error Ciclo G70: ${range.error} en línea ${cmd.line}`);
+    if (replaying) return fail(`Error Ciclo G70: G70 dentro de un perfil de acabado en línea ${cmd.line}`);
+    return { next: i + 1, dwell: 0, profile: { start: range.start, end: range.end } };
+  }
+
+  const startX = ctx.x;
+  const startZ = ctx.z;
+  const absolute = ctx.modal.distance === 90;
+  if (cmd.params.X !== undefined) ctx.x = absolute ? cmd.params.X : ctx.x + cmd.params.X;
+  if (cmd.params.U !== undefined) ctx.x += cmd.params.U;
+  if (cmd.params.Z !== undefined) ctx.z = absolute ? cmd.params.Z : ctx.z + cmd.params.Z;
+  if (cmd.params.W !== undefined) ctx.z += cmd.params.W;
+
+  if (cmd.params.S !== undefined && !(cmd.type === 'G' && cmd.code === 50)) {
+    ctx.s = cmd.params.S;
+  }
+
+  if (cmd.type === 'T' && cmd.code !== undefined) {
+    // T0101 se lee como 101: herramienta 01, corrector 01 (geometría + desgaste)
+    const { tool: id, offset } = parseToolCode(cmd.code);
+    if (offset > 0 && !run.config.toolOffsets[offset]) {
+      return fail(`Error Herramienta: el corrector ${offset} no existe en la tabla de correctores (T${String(cmd.code).padStart(4, '0')}) en línea ${cmd.line}`);
+    }
+    const before = placementOf(run);
+    if (id > 0 && id !== ctx.tool) {
+      ctx.tool = id;
+      ctx.nose = null;
+    }
+    ctx.offset = offset;
+    keepPosition(run, before);
+  }
+
+  if (cmd.type === 'M') {
+    if (cmd.code === 3) ctx.spindleDirection = 'CW';
+    else if (cmd.code === 4) ctx.spindleDirection = 'CCW';
+    else if (cmd.code === 5) ctx.spindleDirection = 'STOP';
+    else if (cmd.code === 7) ctx.coolant = 'MIST';
+    else if (cmd.code === 8) ctx.coolant = 'FLOOD';
+    else if (cmd.code === 9) ctx.coolant = 'OFF';
+  }
+
+  let type: 'cut' | 'rapid' = 'rapid';
+  if (cmd.type === 'G' && (cmd.code === 1 || cmd.code === 2 || cmd.code === 3 || cmd.code === 32 || cmd.code === 33 || cmd.code === 71 || cmd.code === 72 || cmd.code === 74 || cmd.code === 75 || cmd.code === 76)) {
+    type = 'cut';
+  }
+
+  // --- LÓGICA DE G28 (HOME RETURN) ---
+  if (cmd.type === 'G' && cmd.code === 28) {
+    // 1. Primero registramos el movimiento al punto intermedio (si se especificó en la línea)
+    ctx.path.push({ x: ctx.x, z: ctx.z, cx: ctx.x, cz: ctx.z, type: 'rapid' });
+
+    // 2. Determinar qué ejes vuelven a Home (X/U para X, Z/W para Z)
+    // En un torno Fanuc, si se especifica G28 U0, solo vuelve el eje X.
+    const isSelective = (cmd.params.X !== undefined || cmd.params.U !== undefined ||
+                         cmd.params.Z !== undefined || cmd.params.W !== undefined);
+
+    // Home está en coordenadas de máquina: en cotas de pieza depende del origen y del corrector activos
+    const origin = placementOf(run);
+    if (isSelective) {
+      if (cmd.params.X !== undefined || cmd.params.U !== undefined) ctx.x = home.x - origin.x;
+      if (cmd.params.Z !== undefined || cmd.params.W !== undefined) ctx.z = home.z - origin.z;
+    } else {
+      // Si no hay parámetros, ambos ejes vuelven a Home por defecto
+      ctx.x = home.x - origin.x;
+      ctx.z = home.z - origin.z;
+    }
+
+    // 3. Registramos el movimiento final al Home (la compensación vuelve a arrancar en el siguiente movimiento)
+    ctx.path.push({ x: ctx.x, z: ctx.z, cx: ctx.x, cz: ctx.z, type: 'rapid' });
+    ctx.nose = null;
+    return { next: i + 1, dwell: 0 };
+  }
+
+  if (cmd.type === 'G' && cmd.code !== undefined && MOTION_CODES.includes(cmd.code)) {
+    // Interpolación Circular G02/G03
+    let arc: ArcData | undefined;
+    if (cmd.code === 2 || cmd.code === 3) {
+      const resolved = resolveArc({ x: startX, z: startZ }, { x: ctx.x, z: ctx.z }, cmd.params, cmd.code === 2 ? 'CW' : 'CCW', cmd.line);
+      if (resolved.error) return fail(resolved.error);
+      arc = resolved.arc;
+    }
+
+    const compensated = compensatedSegments(run, i, last, { start: { x: startX, z: startZ }, end: { x: ctx.x, z: ctx.z }, arc }, type, cmd.line);
+    if (compensated.error) return fail(compensated.error);
+    ctx.path.push(...compensated.segments);
+  }
+
+  // M30: fin de programa, aunque queden bloques detrás
+  return { next: cmd.type === 'M' && cmd.code === 30 ? commands.length : i + 1, dwell: 0 };
+};
+
+// Runs command i at top level, a G70 with the whole replay of its profile
+const runCommand = (run: ProgramRun, i: number): Outcome => {
+  const ctx = run.context;
+  const commands = run.config.commands;
+  const cmd = commands[i];
+  let from = ctx.path.length;
+  const outcome = execute(run, i, false);
+  if (outcome.error) return outcome;
+
+  if (outcome.profile) {
+    const returnPoint = { x: ctx.x, z: ctx.z };
+    // G70 passes belong to the G70 block, not to the profile blocks they replay
+    for (let j = outcome.profile.start; j <= outcome.profile.end;) {
+      const replayed = execute(run, j, true, outcome.profile.end);
+      if (replayed.error) return replayed;
+      const error = commitSegments(run, from, commands[j], cmd.line);
+      if (error) return { ...replayed, error };
+      from = ctx.path.length;
+      j = replayed.next;
+    }
+    // Fin del perfil G70: retorno al punto inicial del ciclo
+    ctx.x = returnPoint.x;
+    ctx.z = returnPoint.z;
+    ctx.path.push({ x: ctx.x, z: ctx.z, type: 'rapid' });
+    ctx.nose = null;
+  }
+
+  const error = commitSegments(run, from, cmd, cmd.line);
+  if (error) return { ...outcome, error };
+  // Falling off the end of a subprogram without M99 is an alarm
+  const flow = cmd.type === 'M' && cmd.code === 30 ? outcome : continueAt(commands, outcome.next, ctx.calls);
+  if (flow.error) return { ...outcome, error: flow.error };
+  ctx.next = flow.next;
+  return outcome;
+};
+
+// Puts the context back at the latest snapshot at or before step `step`
+const restore = (run: ProgramRun, step: number) => {
+  let snapshot = run.snapshots[0];
+  for (const s of run.snapshots) if (s.steps <= step) snapshot = s;
+  const { pathLength, threadsLength, ...rest } = snapshot;
+  run.context = {
+    ...rest,
+    cycleSetup: { ...snapshot.cycleSetup },
+    vars: { ...snapshot.vars },
+    calls: [...snapshot.calls],
+    path: run.context.path.slice(0, pathLength),
+    threads: run.context.threads.slice(0, threadsLength)
+  };
+  run.broken = false;
+};
+
+const saveSnapshot = (run: ProgramRun) => {
+  const latest = run.snapshots[run.snapshots.length - 1];
+  if (run.context.steps - latest.steps >= SNAPSHOT_INTERVAL) run.snapshots.push(snapshotOf(run.context));
+};
+
+// Runs the next command in execution order, logging it in the trace
+const advance = (run: ProgramRun): Outcome => {
+  const ctx = run.context;
+  const total = run.config.commands.length;
+  run.trace[ctx.steps] = ctx.next;
+  if (ctx.steps >= MAX_EXECUTED_BLOCKS) {
+    run.broken = true;
+    return { next: ctx.next, dwell: 0, error: runawayError() };
+  }
+  const outcome = runCommand(run, ctx.next);
+  if (outcome.error) {
+    run.broken = true;
+    return outcome;
+  }
+  ctx.steps++;
+  if (ctx.next >= total) run.trace[ctx.steps] = total;
+  saveSnapshot(run);
+  return outcome;
+};
+
+const stateOf = (run: ProgramRun): SimulationState => {
+  const ctx = run.context;
+  const placement = placementOf(run);
+  return {
+    x: ctx.x + placement.x, z: ctx.z + placement.z, workOrigin: originOf(run), spindleSpeed: ctx.s, spindleDirection: ctx.spindleDirection,
+    spindleMode: ctx.modal.spindleMode === 96 ? 'CSS' : 'RPM', programmedSpeed: ctx.s, maxSpindleSpeed: ctx.maxRpm, spindleClamped: false,
+    offsetNumber: ctx.offset, toolOffset: shiftOf(run), positioningMode: ctx.modal.distance === 90 ? 'ABS' : 'INC',
+    toolRadiusComp: ctx.modal.compensation === 42 ? 'RIGHT' : ctx.modal.compensation === 41 ? 'LEFT' : 'OFF',
+    modal: ctx.modal, path: ctx.path, threads: ctx.threads, tool: ctx.tool, feedRate: ctx.feed, coolant: ctx.coolant,
+    variables: { ...ctx.vars }
+  };
+};
+
+/**
+ * Lays out the block at step `step`: runs forward from where the last call
+ * stopped, or from the nearest snapshot when seeking back, so advancing one
+ * block costs one block. A step past the end of the program gives the final
+ * state with no motion. The result's path is shared with the run and grows as
+ * later blocks are run.
+ */
+export const runBlock = (run: ProgramRun, step: number): BlockResult => {
+  if (run.cached && run.cached.step === step) return run.cached;
+  run.cached = null;
+  if (run.broken || run.context.steps > step) restore(run, step);
+  const total = run.config.commands.length;
+
+  while (run.context.steps < step && run.context.next < total) {
+    const { error } = advance(run);
+    if (error) return { error };
+  }
+
+  const blockStart = run.context.path.length;
+  const blockStock = run.context.stock;
+  const index = run.context.next;
+  let dwell = 0;
+  if (index < total) {
+    const outcome = advance(run);
+    if (outcome.error) return { error: outcome.error };
+    dwell = outcome.dwell;
+  }
+
+  const result: BlockRun = { step: run.context.steps - 1, index, next: run.context.next, state: stateOf(run), blockStart, blockStock, dwell };
+  run.cached = result;
+  return result;
+};
+
+/**
+ * Lays out command `index` as reached after step `from` (-1 at the start): the
+ * next step when it runs that command, else its latest run up to `from`, else
+ * its first run. A command the program never runs, such as a cycle's P–Q
+ * profile or blocks a GOTO jumps over, gives the state after the jump with no
+ * motion. The run must already be laid out up to its end or first alarm.
+ */
+export const seekBlock = (run: ProgramRun, index: number, from: number): BlockResult => {
+  const { trace } = run;
+  if (trace[from + 1] === index) return runBlock(run, from + 1);
+  for (let s = Math.min(from, trace.length - 1); s >= 0; s--) if (trace[s] === index) return runBlock(run, s);
+  const first = trace.indexOf(index, from + 1);
+  if (first !== -1) return runBlock(run, first);
+
+  // Step that jumps over the command: the latest up to `from`, else the first after it
+  let over = -1;
+  for (let s = 0; s + 1 < trace.length; s++) {
+    if (trace[s] >= index || trace[s + 1] <= index) continue;
+    if (s > from && over !== -1) break;
+    over = s;
+    if (s > from) break;
+  }
+  // Nothing jumps over it: it lies past the end of the program, or after the alarm that stopped it
+  if (over === -1) over = trace[trace.length - 1] === run.config.commands.length ? trace.length - 2 : trace.length - 1;
+  const result = runBlock(run, over);
+  if ('error' in result) return result;
+  return { ...result, index, blockStart: result.state.path.length, blockStock: run.context.stock, dwell: 0 };
+};
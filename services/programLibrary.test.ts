@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { TOOLS } from '../constants';
+import { MAX_CALL_DEPTH, ProgramSource, linkPrograms } from './programLibrary';
+import { MachineConfig, simulateProgram } from './simulationKernel';
+
+const MACHINE: MachineConfig = { home: { x: 100, z: 50 }, stockDiameter: 40, stockLength: 150, material: 'Steel' };
+
+const run = (programs: ProgramSource[]) => simulateProgram(linkPrograms(programs).commands, MACHINE, TOOLS);
+
+// Main program O1 calling O2, which calls O3 and so on, `levels` deep
+const chain = (levels: number): ProgramSource[] => [
+  { number: 1, code: 'O0001\nM98 P2\nM30' },
+  ...Array.from({ length: levels - 1 }, (_, k) => ({ number: k + 2, code: `M98 P${k + 3}\nM99` })),
+  { number: levels + 1, code: 'G04 P100\nM99' }
+];
+
+describe('M98/M99 subprograms', () => {
+  it('runs a subprogram L times and returns to the caller', () => {
+    const result = run([{ number: 1, code: 'M98 P2 L3\nM30' }, { number: 2, code: '#1 = #1 + 1\nM99' }]);
+    expect(result.alarm).toBeUndefined();
+    expect(result.states[result.states.length - 1].variables[1]).toBe(3);
+  });
+
+  it(`allows ${MAX_CALL_DEPTH} nested calls`, () => {
+    expect(run(chain(MAX_CALL_DEPTH)).alarm).toBeUndefined();
+  });
+
+  it('raises an alarm one level deeper', () => {
+    const result = run(chain(MAX_CALL_DEPTH + 1));
+    expect(result.alarm?.message).toBe(`Error Subprograma: más de ${MAX_CALL_DEPTH} niveles de llamada (M98 en línea 1)`);
+  });
+
+  it('flags calls to programs missing from the library', () => {
+    const { diagnostics } = linkPrograms([{ number: 1, code: 'M98 P9\nM98\nM30' }]);
+    expect(diagnostics[1].map(d => d.message)).toEqual(['M98: el programa O0009 no está en la biblioteca', 'M98 necesita P con el número de subprograma']);
+  });
+});
@@ -0,0 +1,138 @@
+import { GCodeCommand, ParseDiagnostic } from '../types';
+import { parseProgram } from './gcodeParser';
+
+/** O-number given to a program that doesn't state its own */
+export const DEFAULT_PROGRAM_NUMBER = 1001;
+
+/** Subprogram calls that may be open at once, as on a Fanuc control */
+export const MAX_CALL_DEPTH = 4;
+
+export interface ProgramSource {
+  number: number; // O-number
+  code: string;
+}
+
+export interface LinkedLibrary {
+  commands: GCodeCommand[]; // Every program, the main one first, tagged with its O-number
+  diagnostics: Record<number, ParseDiagnostic[]>; // By O-number
+}
+
+/** Open M98 call: where the subprogram starts, where to come back and how many more times to run it */
+export interface CallFrame {
+  program: number;
+  entry: number; // Index of the subprogram's first command
+  returnTo: number; // Command after the M98
+  repeats: number; // Runs left after the current one (L)
+}
+
+export interface FlowResult {
+  next: number;
+  error?: string;
+}
+
+/** O-number written at the head of a program ("O2000 (ROSCA)"), if any */
+export const programNumberOf = (code: string): number | undefined => {
+  const match = code.match(/^[\s%]*O(\d{1,4})/im);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+/** "O0010" */
+export const programName = (number: number) => `O${String(number).padStart(4, '0')}`;
+
+// M98 P/L split into program and count: P30010 is O0010 three times
+const callTarget = (cmd: GCodeCommand): { program: number; count: number } | undefined => {
+  const p = cmd.params.P;
+  if (p === undefined) return undefined;
+  if (cmd.params.L === undefined && p > 9999) return { program: p % 10000, count: Math.floor(p / 10000) };
+  return { program: p, count: cmd.params.L ?? 1 };
+};
+
+/**
+ * Parses every program of the library into one command list, the main program
+ * (the first) ahead of its subprograms, so they run on one interpreter. WHILE
+ * loops are relinked to their new indices and M98 calls are checked against
+ * the library.
+ */
+export const linkPrograms = (programs: ProgramSource[]): LinkedLibrary => {
+  const commands: GCodeCommand[] = [];
+  const diagnostics: Record<number, ParseDiagnostic[]> = {};
+
+  programs.forEach(({ number, code }) => {
+    const parsed = parseProgram(code);
+    const offset = commands.length;
+    const found: ParseDiagnostic[] = [...parsed.diagnostics];
+    const stated = programNumberOf(code);
+    if (stated !== undefined && stated !== number) {
+      const line = code.split('\n').findIndex(l => /^[\s%]*O\d/i.test(l));
+      found.push({ severity: 'warning', code: 'PROGRAM_NUMBER', message: `${programName(stated)} no coincide con la pestaña ${programName(number)}: se llama como ${programName(number)}`, line: line + 1, startColumn: 1, endColumn: code.split('\n')[line].length + 1 });
+    }
+
+    parsed.commands.forEach(c => {
+      const macro = c.macro?.kind === 'while' && c.macro.end !== -1 ? { ...c.macro, end: c.macro.end + offset }
+        : c.macro?.kind === 'end' && c.macro.start !== -1 ? { ...c.macro, start: c.macro.start + offset }
+        : c.macro;
+      commands.push({ ...c, program: number, macro });
+
+      const target = c.type === 'M' && c.code === 98 && !c.expressions?.P ? callTarget(c) : undefined;
+      const report = (message: string) => found.push({ severity: 'error', code: 'MISSING_PROGRAM', message, line: c.line, startColumn: 1, endColumn: c.raw.length + 1 });
+      if (c.type === 'M' && c.code === 98 && c.params.P === undefined && !c.expressions?.P) report('M98 necesita P con el número de subprograma');
+      else if (target && !programs.some(p => p.number === target.program)) report(`M98: el programa ${programName(target.program)} no está en la biblioteca`);
+    });
+
+    diagnostics[number] = found.sort((a, b) => a.line - b.line || a.startColumn - b.startColumn);
+  });
+
+  return { commands, diagnostics };
+};
+
+/**
+ * M98 P L: opens a call to program O{P}, run L times (once by default). Fanuc
+ * also takes the count in front of a four-digit number: P30010. `cmd` is the
+ * block at `index` with its words resolved.
+ */
+export const callSubprogram = (commands: GCodeCommand[], index: number, cmd: GCodeCommand, calls: CallFrame[]): FlowResult => {
+  const target = callTarget(cmd);
+  if (!target) return { next: index + 1, error: `Error Subprograma: M98 sin P en línea ${cmd.line}` };
+  const entry = commands.findIndex(c => c.program === target.program);
+  if (entry === -1) return { next: index + 1, error: `Error Subprograma: ${programName(target.program)} no existe o está vacío (M98 en línea ${cmd.line})` };
+  if (target.count < 1) return { next: index + 1 };
+  if (calls.length >= MAX_CALL_DEPTH) {
+    return { next: index + 1, error: `Error Subprograma: más de ${MAX_CALL_DEPTH} niveles de llamada (M98 en línea ${cmd.line})` };
+  }
+  calls.push({ program: target.program, entry, returnTo: index + 1, repeats: target.count - 1 });
+  return { next: entry };
+};
+
+/**
+ * M99: runs the subprogram again while L repeats are left, then returns after
+ * the M98, or to block N{P} of the caller. In the main program M99 starts it
+ * over (from N{P} when given).
+ */
+export const returnFromSubprogram = (commands: GCodeCommand[], index: number, cmd: GCodeCommand, calls: CallFrame[]): FlowResult => {
+  const top = calls[calls.length - 1];
+  if (top && top.repeats > 0) {
+    // Frames are replaced, never changed: interpreter snapshots share them
+    calls[calls.length - 1] = { ...top, repeats: top.repeats - 1 };
+    return { next: top.entry };
+  }
+  if (top) calls.pop();
+  const returnTo = top ? top.returnTo : commands.findIndex(c => c.program === cmd.program);
+  if (cmd.params.P === undefined) return { next: returnTo };
+
+  const caller = top ? commands[top.returnTo - 1].program : cmd.program;
+  const target = commands.findIndex(c => c.sequence === cmd.params.P && c.program === caller);
+  if (target === -1) return { next: index + 1, error: `Error Subprograma: M99 P${cmd.params.P}: secuencia N${cmd.params.P} no encontrada en ${programName(caller ?? DEFAULT_PROGRAM_NUMBER)}` };
+  return { next: target };
+};
+
+/**
+ * Checks the command execution goes on to: the main program ends after its
+ * last block, but a subprogram has to return with M99 (M30 is not checked:
+ * it ends the program from anywhere).
+ */
+export const continueAt = (commands: GCodeCommand[], next: number, calls: CallFrame[]): FlowResult => {
+  const program = calls.length > 0 ? calls[calls.length - 1].program : commands[0]?.program;
+  if (next < commands.length && commands[next].program === program) return { next };
+  if (calls.length === 0) return { next: commands.length };
+  return { next, error: `Error Subprograma: ${programName(program!)} termina sin M99` };
+};
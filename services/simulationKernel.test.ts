@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { LESSONS, TOOLS } from '../constants';
+import { StockProfile } from '../types';
+import { DEFAULT_PROGRAM_NUMBER, linkPrograms, programNumberOf } from './programLibrary';
+import { MachineConfig, simulateProgram } from './simulationKernel';
+import { STOCK_LENGTH } from './stockModel';
+
+const HOME = { x: 100, z: 50 };
+
+// Rounded so the golden files don't churn on floating-point noise
+const rounded = (value: unknown): unknown => {
+  if (typeof value === 'number') return Math.round(value * 1000) / 1000;
+  if (Array.isArray(value)) return value.map(rounded);
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined).map(([k, v]) => [k, rounded(v)]));
+  return value;
+};
+
+// Stock as runs of equal radius, from the face towards the chuck
+const stockSteps = (stock: StockProfile) => {
+  const steps: { z: number; radius: number }[] = [];
+  stock.radii.forEach((radius, i) => {
+    const r = Math.round(radius * 1000) / 1000;
+    if (steps.length === 0 || steps[steps.length - 1].radius !== r) steps.push({ z: -i * stock.resolution, radius: r });
+  });
+  return steps;
+};
+
+describe('simulateProgram golden files', () => {
+  it.each(LESSONS.map(lesson => [lesson.id, lesson] as const))('%s', (_, lesson) => {
+    const { commands } = linkPrograms([
+      { number: programNumberOf(lesson.defaultCode) ?? DEFAULT_PROGRAM_NUMBER, code: lesson.defaultCode },
+      ...(lesson.subprograms || [])
+    ]);
+    const machine: MachineConfig = { home: HOME, stockDiameter: lesson.stockDiameter, stockLength: STOCK_LENGTH, material: 'Steel' };
+    const result = simulateProgram(commands, machine, TOOLS);
+
+    expect(rounded({ path: result.path, alarm: result.alarm ?? null, stock: stockSteps(result.stock) })).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,90 @@
+import { GCodeCommand, MaterialType, PathSegment, SimulationState, StockProfile, ThreadData, ToolConfig, ToolOffsets, WorkOffsets } from '../types';
+import { isSpindleClamped, spindleRpm } from './motionPlanner';
+import { createProgramRun, runBlock } from './programInterpreter';
+import { defaultToolOffsets } from './toolOffsets';
+import { defaultWorkOffsets } from './workCoordinates';
+
+/** Wear (% per mm cut) of an insert in steel; other materials scale it by hardness */
+export const WEAR_RATE = 0.2;
+
+const HARDNESS: Partial<Record<MaterialType, number>> = { Aluminum: 0.5, 'Carbon Fiber': 1.5 };
+
+export interface MachineConfig {
+  home: { x: number; z: number };
+  workOffsets?: WorkOffsets; // G54–G59; part zero on the stock face when omitted
+  toolOffsets?: ToolOffsets; // Offset page; line n set up for tool n when omitted
+  stockDiameter: number;
+  stockLength: number;
+  material: MaterialType;
+}
+
+/** Machine state after a command; the path is shared, `pathEnd` marks where this command's motion ends */
+export type KernelState = Omit<SimulationState, 'path' | 'threads'> & {
+  index: number; // Command run
+  pathEnd: number;
+  dwell: number; // G04 seconds
+};
+
+export interface SimulationResult {
+  states: KernelState[]; // One per block run in execution order, up to the alarm if any
+  path: PathSegment[];
+  threads: ThreadData[];
+  stock: StockProfile; // Part left by the program
+  wear: Record<number, number>; // Final wear (%) by tool id
+  alarm?: { index: number; line: number; message: string };
+}
+
+/** Actual spindle speed with the tool at diameter x: G96 follows X, G50 caps it */
+export const spindleAt = (state: SimulationState, x: number) => {
+  if (state.spindleDirection === 'STOP') return { spindleSpeed: 0, spindleClamped: false };
+  const css = state.spindleMode === 'CSS';
+  return {
+    spindleSpeed: spindleRpm(state.programmedSpeed, css, x, state.maxSpindleSpeed),
+    spindleClamped: isSpindleClamped(state.programmedSpeed, css, x, state.maxSpindleSpeed)
+  };
+};
+
+/** Wear (%) added to an insert that cuts `distance` mm of the material */
+export const wearIncrement = (distance: number, material: MaterialType): number =>
+  distance * (HARDNESS[material] ?? 1) * WEAR_RATE;
+
+/**
+ * Runs a whole program without any rendering: the same interpreter the
+ * simulator animates, plus the insert wear it would accumulate. Stops at the
+ * first alarm.
+ */
+export const simulateProgram = (commands: GCodeCommand[], machine: MachineConfig, tools: ToolConfig[]): SimulationResult => {
+  const run = createProgramRun({
+    commands, tools, home: machine.home,
+    workOffsets: machine.workOffsets ?? defaultWorkOffsets(machine.home),
+    toolOffsets: machine.toolOffsets ?? defaultToolOffsets(tools),
+    stockDiameter: machine.stockDiameter, stockLength: machine.stockLength
+  });
+  const wear: Record<number, number> = {};
+  tools.forEach(t => { wear[t.id] = t.wear; });
+  const states: KernelState[] = [];
+  const done = (alarm?: SimulationResult['alarm']): SimulationResult => ({
+    states, path: run.context.path, threads: run.context.threads, stock: run.context.stock, wear, alarm
+  });
+
+  for (let step = 0; run.context.next < commands.length; step++) {
+    const result = runBlock(run, step);
+    if ('error' in result) {
+      const index = run.trace[step];
+      return done({ index, line: commands[index].line, message: result.error });
+    }
+    const { path, threads, ...state } = result.state;
+    const cmd = commands[result.index];
+    if (cmd.type === 'M' && cmd.code === 100) wear[state.tool] = 0;
+
+    // Wear builds up on cuts made with the spindle turning, as in the live simulation
+    for (let k = result.blockStart; k < path.length && state.spindleDirection !== 'STOP'; k++) {
+      const seg = path[k];
+      if (seg.type === 'cut' && seg.tool !== undefined && wear[seg.tool] < 100) wear[seg.tool] += wearIncrement(run.engaged[k], machine.material);
+    }
+
+    states.push({ ...state, ...spindleAt(result.state, state.x), index: result.index, pathEnd: path.length, dwell: result.dwell });
+  }
+
+  return done();
+};
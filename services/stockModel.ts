@@ -0,0 +1,98 @@
+import { PathSegment, StockProfile, ToolConfig } from '../types';
+import { sampleArc } from './arcInterpolation';
+
+/** Length of bar out of the chuck (mm) */
+export const STOCK_LENGTH = 150;
+
+/**
+ * Creates a solid bar of stock. The face of the bar sits at Z0 and the
+ * radius is sampled every `resolution` mm towards the chuck (negative Z).
+ */
+export const createStock = (diameter: number, length: number, resolution = 0.25): StockProfile => ({
+  diameter,
+  length,
+  resolution,
+  radii: new Array(Math.floor(length / resolution) + 1).fill(diameter / 2)
+});
+
+/**
+ * Radius of the remaining stock at a given Z (0 outside the bar).
+ */
+export const stockRadiusAt = (stock: StockProfile, z: number): number => {
+  const i = Math.round(-z / stock.resolution);
+  if (i < 0 || i >= stock.radii.length) return 0;
+  return stock.radii[i];
+};
+
+/**
+ * Depth (mm above the tool tip) reached by the insert at an axial distance dz
+ * from the tip, or null where the insert does not touch.
+ * General and grooving inserts have a flat edge of `width` with rounded corners
+ * of `noseRadius`; threading inserts are a 60° V.
+ */
+const insertProfile = (tool: ToolConfig, dz: number): number | null => {
+  const half = tool.width / 2;
+  const adz = Math.abs(dz);
+  if (adz > half) return null;
+
+  if (tool.type === 'threading') return adz / Math.tan(Math.PI / 6);
+
+  const rn = Math.min(tool.noseRadius, half);
+  const flat = half - rn;
+  if (adz <= flat) return 0;
+  const e = adz - flat;
+  return rn - Math.sqrt(Math.max(0, rn * rn - e * e));
+};
+
+/**
+ * Subtracts every cut segment of a path from the stock, sweeping the insert
+ * of the tool that made it. Compensated positions (cx/cz, compArc) are used when present.
+ * Threading passes are skipped: a helix does not remove a full ring of material,
+ * the thread form is drawn from `SimulationState.threads` instead.
+ */
+export const cutStock = (
+  stock: StockProfile,
+  path: PathSegment[],
+  tools: ToolConfig[],
+  start: { x: number; z: number }
+): StockProfile => {
+  const radii = [...stock.radii];
+  const res = stock.resolution;
+  let last = { x: start.x, z: start.z };
+
+  const applyTool = (tool: ToolConfig, x: number, z: number) => {
+    const tipR = Math.max(0, x / 2);
+    const half = tool.width / 2;
+    const from = Math.max(0, Math.ceil(-(z + half) / res));
+    const to = Math.min(radii.length - 1, Math.floor(-(z - half) / res));
+    for (let i = from; i <= to; i++) {
+      const depth = insertProfile(tool, -i * res - z);
+      if (depth === null) continue;
+      const r = tipR + depth;
+      if (r < radii[i]) radii[i] = r;
+    }
+  };
+
+  path.forEach(p => {
+    const x = p.cx !== undefined ? p.cx : p.x;
+    const z = p.cz !== undefined ? p.cz : p.z;
+    const tool = tools.find(t => t.id === p.tool);
+
+    if (p.type === 'cut' && tool && tool.type !== 'threading') {
+      const arc = p.compArc ?? p.arc;
+      const points = arc ? sampleArc(last, { x, z }, arc, res) : [{ x, z }];
+      let prev = last;
+      points.forEach(pt => {
+        const dz = pt.z - prev.z; const dr = (pt.x - prev.x) / 2;
+        const steps = Math.max(1, Math.ceil(Math.sqrt(dz * dz + dr * dr) / (res / 2)));
+        for (let s = 1; s <= steps; s++) {
+          applyTool(tool, prev.x + ((pt.x - prev.x) * s) / steps, prev.z + (dz * s) / steps);
+        }
+        prev = pt;
+      });
+    }
+    last = { x, z };
+  });
+
+  return { ...stock, radii };
+};
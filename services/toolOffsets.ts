@@ -0,0 +1,33 @@
+import { ToolConfig, ToolOffset, ToolOffsets } from '../types';
+
+/** Lines on the offset page */
+export const OFFSET_COUNT = 16;
+
+const EMPTY_OFFSET: ToolOffset = { geometryX: 0, geometryZ: 0, wearX: 0, wearZ: 0, noseRadius: 0, tipDirection: 0 };
+
+/** Offset page with line n set up for tool n, as measured: its reach as geometry, no wear, the insert's R and T */
+export const defaultToolOffsets = (tools: ToolConfig[]): ToolOffsets =>
+  Object.fromEntries(Array.from({ length: OFFSET_COUNT }, (_, k) => {
+    const tool = tools.find(t => t.id === k + 1);
+    return [k + 1, tool
+      ? { ...EMPTY_OFFSET, geometryX: tool.reach.x, geometryZ: tool.reach.z, noseRadius: tool.noseRadius, tipDirection: tool.tipDirection }
+      : EMPTY_OFFSET];
+  }));
+
+/**
+ * Tool and offset numbers of a T word: T0101 is tool 01 with offset 01, T0100
+ * cancels the offset. A short T1 takes the offset of the same number.
+ */
+export const parseToolCode = (code: number): { tool: number; offset: number } =>
+  code >= 100 ? { tool: Math.floor(code / 100), offset: code % 100 } : { tool: code, offset: code };
+
+/**
+ * Shift of the tool's programmed point (X as a diameter): geometry plus wear,
+ * less the reach of the tool, which a correctly measured geometry cancels.
+ */
+export const offsetShift = (offset: ToolOffset | undefined, tool: ToolConfig | undefined): { x: number; z: number } => {
+  const reach = tool ? tool.reach : { x: 0, z: 0 };
+  const x = offset ? offset.geometryX + offset.wearX : 0;
+  const z = offset ? offset.geometryZ + offset.wearZ : 0;
+  return { x: x - reach.x, z: z - reach.z };
+};
@@ -0,0 +1,63 @@
+import { ToolConfig } from '../types';
+
+/**
+ * Stylus of the tool setter arm, in scene coordinates (X as a diameter). Tips
+ * are measured on its top face (X) and its front face (Z).
+ */
+export interface ToolSetter {
+  top: number;
+  bottom: number;
+  front: number;
+  back: number;
+}
+
+// The arm swings the stylus in front of the stock face, at a fixed place from the reference point
+const SETTER_BELOW_HOME = 90; // Diameter from home down to the top face
+const SETTER_BEHIND_HOME = 25; // From home back to the front face
+const SETTER_SIZE = 10; // Side of the square stylus
+
+const CONTACT_TOLERANCE = 0.0005;
+
+/** Stylus position for a machine reference point */
+export const toolSetterAt = (home: { x: number; z: number }): ToolSetter => {
+  const top = home.x - SETTER_BELOW_HOME;
+  const front = home.z - SETTER_BEHIND_HOME;
+  return { top, bottom: top - 2 * SETTER_SIZE, front, back: front - SETTER_SIZE };
+};
+
+/**
+ * Where a one-axis jog from `from` to `to` ends: a tip running into the stylus
+ * stops on the face it touches, the way the probe's skip signal halts the axis.
+ */
+export const jogStop = <P extends { x: number; z: number }>(from: P, to: P, setter: ToolSetter): P => {
+  if (to.z !== from.z && from.x > setter.bottom && from.x < setter.top) {
+    if (from.z >= setter.front && to.z < setter.front) return { ...to, z: setter.front };
+    if (from.z <= setter.back && to.z > setter.back) return { ...to, z: setter.back };
+  }
+  if (to.x !== from.x && from.z > setter.back && from.z < setter.front) {
+    if (from.x >= setter.top && to.x < setter.top) return { ...to, x: setter.top };
+    if (from.x <= setter.bottom && to.x > setter.bottom) return { ...to, x: setter.bottom };
+  }
+  return to;
+};
+
+/** Face of the stylus the tip is touching: its top (X), its front (Z) or none */
+export const setterContact = (tip: { x: number; z: number }, setter: ToolSetter): 'x' | 'z' | null => {
+  if (Math.abs(tip.x - setter.top) < CONTACT_TOLERANCE && tip.z >= setter.back && tip.z <= setter.front) return 'x';
+  if (Math.abs(tip.z - setter.front) < CONTACT_TOLERANCE && tip.x >= setter.bottom && tip.x <= setter.top) return 'z';
+  return null;
+};
+
+/**
+ * Geometry offset measured on one axis: the tip, at scene position `tip`, reads
+ * `measured` from `zero` (part zero with the diameter or Z typed by the
+ * operator, or a setter face with 0). The tool's reach is added back since the
+ * offset stands for it; wear is left alone and keeps correcting the tool.
+ */
+export const measuredGeometry = (
+  axis: 'x' | 'z',
+  tip: { x: number; z: number },
+  tool: ToolConfig,
+  zero: { x: number; z: number },
+  measured: number
+): number => Number((tip[axis] + tool.reach[axis] - zero[axis] - measured).toFixed(4));
@@ -0,0 +1,32 @@
+import { WorkOffsets } from '../types';
+
+/** G-codes of the work coordinate systems */
+export const WORK_SYSTEMS = [54, 55, 56, 57, 58, 59] as const;
+
+/** Positions the DRO can show: work (ABS), relative, machine and distance to go */
+export type DroMode = 'ABSOLUTE' | 'RELATIVE' | 'MACHINE' | 'TO_GO';
+
+/** Every work system with part zero on the stock face, on the spindle axis */
+export const defaultWorkOffsets = (home: { x: number; z: number }): WorkOffsets =>
+  Object.fromEntries(WORK_SYSTEMS.map(g => [g, { x: -home.x, z: -home.z }]));
+
+/**
+ * Part zero in scene coordinates: the machine reference point (home) plus the
+ * work offset of G{system}, plus the G50 shift applied to every system.
+ */
+export const workOrigin = (
+  home: { x: number; z: number },
+  offsets: WorkOffsets,
+  system: number,
+  shift = { x: 0, z: 0 }
+): { x: number; z: number } => {
+  const offset = offsets[system] ?? { x: 0, z: 0 };
+  return { x: home.x + offset.x + shift.x, z: home.z + offset.z + shift.z };
+};
+
+/**
+ * The work offsets that keep part zero where it is when the reference point
+ * moves: they are measured from it.
+ */
+export const moveReference = (offsets: WorkOffsets, from: { x: number; z: number }, to: { x: number; z: number }): WorkOffsets =>
+  Object.fromEntries(Object.entries(offsets).map(([g, o]) => [g, { x: o.x + from.x - to.x, z: o.z + from.z - to.z }]));
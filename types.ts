@@ -8,26 +8,150 @@ export enum MachineState {
 
 export type MaterialType = 'Steel' | 'Aluminum' | 'Wood' | 'Carbon Fiber' | 'Epoxi' | 'POM';
 
+/** Modal G-codes in effect for a block, one per group (Fanuc lathe numbering) */
+export interface ModalState {
+  motion: number; // Group 01: G00, G01, G02, G03, G32, G33
+  plane: 17 | 18 | 19; // Group 16: G18 (ZX) is the lathe plane
+  units: 20 | 21; // Group 06: inch / mm
+  distance: 90 | 91; // Group 03: absolute / incremental
+  feedMode: 98 | 99; // Group 05: mm/min / mm/rev
+  spindleMode: 96 | 97; // Group 02: constant surface speed / rpm
+  compensation: 40 | 41 | 42; // Group 07: tool nose radius compensation
+  coordinateSystem: 54 | 55 | 56 | 57 | 58 | 59; // Group 14: work coordinate system
+}
+
+/**
+ * Part zero of each work coordinate system, keyed by G-code (54–59), in machine
+ * coordinates: from the reference point, X as a diameter
+ */
+export type WorkOffsets = Record<number, { x: number; z: number }>;
+
+/** One line of the tool offset page: T0101 shifts the tool by geometry + wear of offset 01 */
+export interface ToolOffset {
+  geometryX: number; // Diameter
+  geometryZ: number;
+  wearX: number; // Diameter
+  wearZ: number;
+  noseRadius: number; // R used by G41/G42
+  tipDirection: number; // Imaginary tip T, 0-9
+}
+
+/** Tool offset page, keyed by offset number (the yy of Txxyy) */
+export type ToolOffsets = Record<number, ToolOffset>;
+
+/** Tool placed by hand while the machine is idle (setup, jog) */
+export interface ManualPosition {
+  x: number; // Tip in scene coordinates, X as a diameter
+  z: number;
+  tool: number; // Turret station
+  offset: number; // Offset number the readings use
+}
+
+/** Macro B expression, evaluated when the block runs */
+export type MacroExpr =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; index: MacroExpr } // #5, #[#1+2]
+  | { kind: 'negate'; operand: MacroExpr }
+  | { kind: 'binary'; op: string; left: MacroExpr; right: MacroExpr } // + - * / MOD AND OR XOR EQ NE GT GE LT LE
+  | { kind: 'call'; name: string; args: MacroExpr[] }; // SIN[...], ATAN[...]/[...]
+
+/** Macro B block: an assignment or a control-flow statement */
+export type MacroStatement =
+  | { kind: 'assign'; variable: MacroExpr; value: MacroExpr } // #100 = ...
+  | { kind: 'goto'; target: MacroExpr; condition?: MacroExpr } // [IF [...]] GOTO n
+  | { kind: 'if'; condition: MacroExpr; variable: MacroExpr; value: MacroExpr } // IF [...] THEN #1 = ...
+  | { kind: 'while'; condition: MacroExpr; loop: number; end: number } // WHILE [...] DOm; `end` is the ENDm command index
+  | { kind: 'end'; loop: number; start: number }; // ENDm; `start` is the WHILE command index
+
 export interface GCodeCommand {
-  type: 'G' | 'M' | 'T' | 'S' | 'F' | 'COMMENT';
+  type: 'G' | 'M' | 'T' | 'S' | 'F' | 'COMMENT' | 'MACRO';
   code?: number;
   params: Record<string, number>;
+  expressions?: Record<string, MacroExpr>; // Words written with variables (X#1, Z[#2-1]); params holds 0 until run
+  macro?: MacroStatement; // MACRO commands
   raw: string;
   line: number;
+  sequence?: number; // N-number of the block this command belongs to
+  program?: number; // O-number of the program holding the block, once linked into a library
+  modalMotion?: boolean; // Axis words with no motion code ("X50"): the motion is the one active when the block runs
+  modal: ModalState; // State after the block's own G-codes are applied
 }
 
-export interface SimulationState {
+/** Problem found while parsing, located like a compiler message */
+export interface ParseDiagnostic {
+  severity: 'error' | 'warning';
+  code: string; // Message code, e.g. MISSING_VALUE, UNSUPPORTED_GCODE
+  message: string;
+  line: number; // 1-based
+  startColumn: number; // 1-based, inclusive
+  endColumn: number; // Exclusive
+}
+
+export interface ArcData {
+  centerX: number; // Arc center X (diameter value, same as path X)
+  centerZ: number; // Arc center Z
+  radius: number; // True radius in mm
+  direction: 'CW' | 'CCW'; // G02 / G03
+}
+
+export interface PathSegment {
   x: number;
   z: number;
+  cx?: number; // Compensated X (G41/G42)
+  cz?: number; // Compensated Z (G41/G42)
+  compArc?: ArcData; // Arc followed by the compensated point when it differs from `arc` (G41/G42)
+  type: 'cut' | 'rapid';
+  arc?: ArcData; // Present when the segment is a G02/G03 arc
+  tool?: number; // Tool that made the move
+  feed?: number; // Programmed feed in mm/min (cuts only)
+  line?: number; // Source line of the block that made the move (a cycle's line for all its passes)
+  program?: number; // O-number of the program holding that line
+}
+
+/** Line of one program in the library */
+export interface SourceLine {
+  program?: number; // O-number
+  line: number; // 1-based
+}
+
+export interface StockProfile {
+  diameter: number;
+  length: number;
+  resolution: number; // mm between radius samples along Z
+  radii: number[]; // Remaining radius at Z = -i * resolution
+}
+
+export interface ThreadData {
+  zStart: number;
+  zEnd: number;
+  majorDiameter: number;
+  minorDiameter: number;
+  lead: number; // mm per revolution (F)
+  angle: number; // Included tool angle in degrees
+}
+
+export interface SimulationState {
+  x: number; // Scene coordinates: X diameter from the spindle axis, Z from the stock face
+  z: number;
+  workOrigin: { x: number; z: number }; // Active part zero (G54–G59 and G50 shift), in scene coordinates
+  distanceToGo?: { x: number; z: number }; // Left to the end of the block in motion
   feedRate: number;
-  spindleSpeed: number;
+  spindleSpeed: number; // Actual RPM at the current X (recalculated under G96)
+  spindleMode: 'CSS' | 'RPM'; // G96 / G97
+  programmedSpeed: number; // S word: RPM under G97, m/min under G96
+  maxSpindleSpeed?: number; // G50 S clamp
+  spindleClamped: boolean; // G96 wants more RPM than the clamp allows
   spindleDirection: 'CW' | 'CCW' | 'STOP';
   tool: number;
-  activeToolOffset: number; // Current Length Offset Value (G43/G44)
+  offsetNumber: number; // Offset yy of the Txxyy in effect, 0 for none
+  toolOffset: { x: number; z: number }; // Geometry + wear of that offset less the tool reach, X as a diameter
   toolRadiusComp: 'OFF' | 'LEFT' | 'RIGHT'; // G40/G41/G42 Status
   positioningMode: 'ABS' | 'INC'; // G90/G91 Status
   coolant: 'OFF' | 'MIST' | 'FLOOD';
-  path: { x: number; z: number; cx?: number; cz?: number; type: 'cut' | 'rapid' }[];
+  modal: ModalState; // Modal G-codes of the running block
+  path: PathSegment[];
+  threads: ThreadData[]; // Threads cut by G76 so far
+  variables: Record<number, number>; // Macro variables holding a value (#1–#33, #100–#199, #500–#999)
 }
 
 export interface Lesson {
@@ -36,6 +160,8 @@ export interface Lesson {
   module: number;
   content: string; // Markdown supported
   defaultCode: string;
+  stockDiameter?: number; // Bar diameter the program was written for (mm)
+  subprograms?: { number: number; code: string }[]; // Loaded next to the main program, one editor tab each
 }
 
 export interface ToolConfig {
@@ -44,8 +170,9 @@ export interface ToolConfig {
   type: 'general' | 'grooving' | 'threading';
   color: string;
   width: number;
-  lengthOffset: number; // Default length offset for this tool
   noseRadius: number;
+  tipDirection: number; // Fanuc imaginary tool tip, 0-9, of the insert: the default T on its offset line
+  reach: { x: number; z: number }; // Tip position from the turret reference (X as a diameter): what the geometry offset measures
   holderMaterial?: string;
   holderType?: string;
   wear: number; // 0 to 100 percentage